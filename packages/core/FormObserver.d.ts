@@ -4,7 +4,14 @@
  * - https://github.com/microsoft/TypeScript/issues/55919 (generic constructors)
  * - https://github.com/microsoft/TypeScript/issues/40451 (generic constructors)
  */
-import type { EventType, FormFieldListener, ListenerOptions, TypesToListeners, OneOrMany } from "./types.d.ts";
+import type {
+  EventType,
+  FormField,
+  FormFieldListener,
+  ListenerOptions,
+  TypesToListeners,
+  OneOrMany,
+} from "./types.d.ts";
 
 interface FormObserverConstructor {
   /**
@@ -82,6 +89,23 @@ interface FormObserver {
 
   /** Stops the observer from listening for any events emitted from all `form` fields. */
   disconnect(): void;
+
+  /**
+   * Called whenever a field enters the `elements` of an observed `form` (for example, because the field was rendered
+   * dynamically, or because its `form` attribute was pointed at the `form`). Fields that already belong to the `form`
+   * when it is observed are ignored. Does nothing by default.
+   *
+   * Note: Fields are only tracked (with a `MutationObserver`) if this method or `onFieldRemoved` is overridden.
+   */
+  onFieldAdded(field: FormField, form: HTMLFormElement): void;
+
+  /**
+   * Called whenever a field leaves the `elements` of an observed `form` (for example, because the field was removed
+   * from the DOM, or because its `form` attribute was pointed at a different form). Does nothing by default.
+   *
+   * Note: Fields are only tracked (with a `MutationObserver`) if this method or `onFieldAdded` is overridden.
+   */
+  onFieldRemoved(field: FormField, form: HTMLFormElement): void;
 }
 
 declare const FormObserver: FormObserverConstructor;
@@ -25,6 +25,12 @@ class FormObserver {
    */
   #roots = new Map();
 
+  /**
+   * @type {Map<HTMLFormElement, MutationObserver>} @readonly Retrieves the `MutationObserver` that detects when fields
+   * enter or leave the provided `HTMLFormElement`'s `elements`. (Only used if the field lifecycle hooks are overridden.)
+   */
+  #mutationObservers = new Map();
+
   /* ---------------------------------------- Constructor Setup ---------------------------------------- */
   /**
    * Provides a way to respond to events emitted by the fields belonging to an `HTMLFormElement`.
@@ -159,6 +165,13 @@ class FormObserver {
       this.#roots.set(form, root);
     }
 
+    if (
+      this.onFieldAdded !== FormObserver.prototype.onFieldAdded ||
+      this.onFieldRemoved !== FormObserver.prototype.onFieldRemoved
+    ) {
+      this.#watchFields(form, root);
+    }
+
     if (observedForms.size > 1) return true; // Listeners have already been attached to the form's root
 
     // First OR Second constructor overload was used
@@ -191,6 +204,8 @@ class FormObserver {
 
     // Stop tracking the form
     this.#roots.delete(form);
+    this.#mutationObservers.get(form)?.disconnect();
+    this.#mutationObservers.delete(form);
 
     const observedForms = /** @type {Set<HTMLFormElement>} */ (this.#formsCollections.get(root));
     observedForms.delete(form);
@@ -220,6 +235,64 @@ class FormObserver {
     const iterator = this.#roots.keys();
     for (let form = iterator.next().value; form; form = iterator.next().value) this.unobserve(form);
   }
+
+  /**
+   * Called whenever a field enters the `elements` of an observed `form` (for example, because the field was rendered
+   * dynamically, or because its `form` attribute was pointed at the `form`). Fields that already belong to the `form`
+   * when it is observed are ignored. Does nothing by default.
+   *
+   * Note: Fields are only tracked (with a `MutationObserver`) if this method or `onFieldRemoved` is overridden.
+   *
+   * @param {import("./types.d.ts").FormField} _field
+   * @param {HTMLFormElement} _form
+   * @returns {void}
+   */
+  // eslint-disable-next-line class-methods-use-this -- This hook is meant to be overridden
+  onFieldAdded(_field, _form) {}
+
+  /**
+   * Called whenever a field leaves the `elements` of an observed `form` (for example, because the field was removed
+   * from the DOM, or because its `form` attribute was pointed at a different form). Does nothing by default.
+   *
+   * Note: Fields are only tracked (with a `MutationObserver`) if this method or `onFieldAdded` is overridden.
+   *
+   * @param {import("./types.d.ts").FormField} _field
+   * @param {HTMLFormElement} _form
+   * @returns {void}
+   */
+  // eslint-disable-next-line class-methods-use-this -- This hook is meant to be overridden
+  onFieldRemoved(_field, _form) {}
+
+  /**
+   * Calls the field lifecycle hooks whenever fields enter or leave the provided `form`'s `elements`. The `form`'s
+   * entire `root` is watched so that fields which are associated with the `form` through their `form` attribute
+   * are detected as well.
+   *
+   * @param {HTMLFormElement} form
+   * @param {Node} root
+   * @returns {void}
+   */
+  #watchFields(form, root) {
+    let fields = new Set(Array.from(form.elements));
+
+    const mutationObserver = new MutationObserver(() => {
+      const previousFields = fields;
+      fields = new Set(Array.from(form.elements));
+
+      previousFields.forEach((field) => {
+        if (!fields.has(field)) this.onFieldRemoved(/** @type {import("./types.d.ts").FormField} */ (field), form);
+      });
+
+      fields.forEach((field) => {
+        if (!previousFields.has(field))
+          this.onFieldAdded(/** @type {import("./types.d.ts").FormField} */ (field), form);
+      });
+    });
+
+    // Note: A `form` attribute (or a form `id`) change can move a field into (or out of) the `form`
+    mutationObserver.observe(root, { childList: true, subtree: true, attributeFilter: ["form", "id"] });
+    this.#mutationObservers.set(form, mutationObserver);
+  }
 }
 
 /**
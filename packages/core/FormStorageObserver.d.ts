@@ -23,7 +23,7 @@
  * that might be another thing that could help us here besides TypeScript supporting generic constructors...
  */
 import type FormObserver from "./FormObserver.js";
-import type { EventType, OneOrMany } from "./types.d.ts";
+import type { EventType, FormField, OneOrMany } from "./types.d.ts";
 
 interface FormStorageObserverConstructor {
   /**
@@ -35,13 +35,16 @@ interface FormStorageObserverConstructor {
    */
   new <T extends OneOrMany<EventType>>(types: T, options?: FormStorageObserverOptions): FormStorageObserver;
 
-  /** Loads all of the data in `localStorage` related to the provided `form`. */
-  load(form: HTMLFormElement): void;
+  /**
+   * Loads all of the data in `localStorage` related to the provided `form`. Returns a report of the stored entries
+   * that were restored, mismatched, skipped, or missing.
+   */
+  load(form: HTMLFormElement): FormStorageLoadReport;
   /**
    * Loads the data in `localStorage` for the field that has the provided `name` and belongs to
    * the provided `form`.
    */
-  load(form: HTMLFormElement, name: string): void;
+  load(form: HTMLFormElement, name: string): FormStorageLoadReport;
 
   /** Clears all of the data in `localStorage` related to the provided `form`. */
   clear(form: HTMLFormElement): void;
@@ -51,12 +54,62 @@ interface FormStorageObserverConstructor {
    * the provided `form`.
    */
   clear(form: HTMLFormElement, name: string): void;
+
+  /** Saves all of the data for the provided `form` to `localStorage`. */
+  save(form: HTMLFormElement): void;
+
+  /**
+   * Saves the data for the field that has the provided `name` and belongs to the provided `form`
+   * to `localStorage`.
+   */
+  save(form: HTMLFormElement, name: string): void;
+
+  /**
+   * Removes all of the _expired_ form data in `localStorage` (for every form). When the `keep` option is provided,
+   * all of the data that belongs to the forms which aren't listed in `keep` is removed as well.
+   */
+  prune(options?: FormStoragePruneOptions): void;
+
+  /**
+   * Removes the data in `localStorage` that was stored for the provided `form`, but that doesn't belong to any of
+   * its fields.
+   */
+  prune(form: HTMLFormElement): void;
+
+  /** Exports all of the data in `localStorage` related to the provided `form` (excluding `File`s). */
+  export(form: HTMLFormElement): FormStorageExport;
+
+  /**
+   * Validates the provided (exported) `data` and writes its values to `localStorage` for the provided `form`.
+   * Values that belong to unknown fields, file inputs, or fields whose values wouldn't be saved (for example,
+   * ignored or sensitive fields) are ignored.
+   */
+  import(form: HTMLFormElement, data: unknown, options?: FormStorageImportOptions): void;
+}
+
+/**
+ * The interface used by the `FormStorageObserver` to interact with a storage backend. Every method may run
+ * synchronously or asynchronously (by returning a `Promise`).
+ */
+export interface FormStorageAdapter {
+  /** Retrieves the value stored for `key`. Returns `null` if no value exists. */
+  get(key: string): string | null | Promise<string | null>;
+
+  /** Stores the provided `value` under `key`. */
+  set(key: string, value: string): void | Promise<void>;
+
+  /** Removes the value stored for `key`. */
+  remove(key: string): void | Promise<void>;
+
+  /** Returns all of the keys that exist in the storage backend. */
+  keys(): string[] | Promise<string[]>;
 }
 
 export interface FormStorageObserverOptions {
   /**
    * Indicates whether or not the observer should automate the loading/removal of a form's `localStorage` data.
-   * - `loading` (Default): A form's data will automatically be loaded from `localStorage` when it is observed.
+   * - `loading` (Default): A form's data will automatically be loaded from `localStorage` when it is observed (and
+   *   again when the page is restored from the back/forward cache).
    * - `deletion`: A form's data will automatically be removed from `localStorage` when it is unobserved.
    * - `both`: Behaves as if `loading` and `deletion` were specified simultaneously.
    * - `neither`: The observer will not automate any data loading or data removal.
@@ -69,10 +122,450 @@ export interface FormStorageObserverOptions {
    * See {@link https://www.w3.org/TR/DOM-Level-3-Events/#event-flow DOM Event Flow}
    */
   useEventCapturing?: boolean;
+
+  /**
+   * The storage backend that the observer reads form data from and writes form data to.
+   * Defaults to an adapter for `localStorage`.
+   */
+  storage?: FormStorageAdapter;
+
+  /**
+   * Determines the storage keys that the observer uses. A `string` is used as a namespace which precedes the default
+   * keys (for example, `user-42:form:my-form:my-field`). A function returns the entire key for the provided `form`'s
+   * field. (In the `record` format, the function is called with an empty `fieldName` to get the key of the form's
+   * record.) By default, keys are derived from the `name`s of the form and its fields.
+   */
+  key?: string | ((form: HTMLFormElement, fieldName: string) => string);
+
+  /**
+   * The number of milliseconds that a field's stored value remains valid after it is saved. Expired values are
+   * ignored (and removed) when data is loaded. By default, stored values never expire.
+   */
+  expiresIn?: number;
+
+  /**
+   * An `AES-GCM` key used to encrypt every value that the observer stores (and to decrypt every value that the
+   * observer loads). Because the Web Crypto API is asynchronous, providing this option causes the observer to
+   * save and load data asynchronously.
+   */
+  encryptionKey?: CryptoKey;
+
+  /**
+   * The version of the form's data schema. When provided, every stored value is tagged with this version.
+   * (Values that were stored without a version are treated as version `0`.) Outdated values are upgraded with
+   * the `migrations` when they are loaded. By default, stored values are not versioned.
+   */
+  version?: number;
+
+  /**
+   * The functions used to upgrade outdated stored values, keyed by the version that they upgrade _from_.
+   * (For example, `migrations[1]` upgrades a value from version `1` to version `2`.) Only relevant when
+   * a `version` is provided.
+   */
+  migrations?: Record<number, StorageMigration>;
+
+  /**
+   * Called whenever a stored value is discarded because it could not be migrated to the current `version`.
+   * (This happens when a migration is missing, or when the value belongs to a _newer_ version.)
+   */
+  onDiscard?(form: HTMLFormElement, name: string, version: number): void;
+
+  /**
+   * Indicates that the observer should keep its observed forms synchronized with the changes that are saved by
+   * other browsing contexts (such as other tabs) that have the same forms open. Incoming values are loaded into
+   * the matching observed form. Defaults to `false`.
+   */
+  sync?: boolean;
+
+  /**
+   * Determines how incoming values are handled when the user is interacting with the field that they belong to.
+   * Only relevant when `sync` is enabled.
+   * - `preserve-focused` (Default): Incoming values are not applied to the field that currently has focus.
+   * - `overwrite`: Incoming values are always applied.
+   */
+  syncConflicts?: "preserve-focused" | "overwrite";
+
+  /**
+   * Dispatches events for the fields whose values are restored by `load` (or received from other browsing contexts),
+   * so that other code can react to the restored values. Afterwards, a bubbling `formstorage:load` event (whose
+   * `detail.names` lists the restored fields) is dispatched on the form. By default, no events are dispatched.
+   * - `native`: Bubbling `input` and `change` events are dispatched on each restored field.
+   * - `custom`: A bubbling `formstorage:restore` event is dispatched on each restored field.
+   */
+  restoreEvents?: "native" | "custom";
+
+  /**
+   * The number of milliseconds to wait after a field's most recent event before saving its value. (Values are
+   * coalesced per field.) Pending values are saved when the page is hidden, or when `flush` is called. Takes
+   * precedence over `throttle`. By default, values are saved immediately.
+   */
+  debounce?: number;
+
+  /**
+   * The minimum number of milliseconds between the saves of a field's value. A field's latest value is always saved
+   * at the end of the interval. Pending values are saved when the page is hidden, or when `flush` is called.
+   * By default, values are saved immediately.
+   */
+  throttle?: number;
+
+  /**
+   * The rule(s) that a field must match (at least one of) in order for its data to be saved and loaded.
+   * By default, all supported fields are included.
+   */
+  include?: OneOrMany<StorageFieldRule>;
+
+  /**
+   * The rule(s) that prevent a matching field's data from being saved and loaded.
+   * (Exclusions take precedence over inclusions.)
+   */
+  exclude?: OneOrMany<StorageFieldRule>;
+
+  /**
+   * Determines how a form's data is laid out in the storage backend.
+   * - `field` (Default): Every field's value is stored under its own key.
+   * - `record`: All of a form's values are stored together (as a single JSON object) under one key.
+   */
+  format?: "field" | "record";
+
+  /**
+   * Enables the storage of the `File`s selected in `<input type="file">` elements. Files are always stored in
+   * `IndexedDB` (regardless of the `storage` option), and they are restored into their fields with a `DataTransfer`.
+   * Defaults to `false`.
+   */
+  files?: boolean | FileStorageOptions;
+
+  /**
+   * The form event(s) that cause an observed form's stored data to be cleared. (Forms that fail validation don't
+   * emit `submit` events, so their data is kept.) Events that are canceled with `preventDefault()` don't clear
+   * anything. Forms that are submitted with JavaScript should be cleared manually after the submission succeeds.
+   * By default, stored data is only cleared when requested (or when `automate`d).
+   */
+  clearOn?: OneOrMany<"submit" | "reset">;
+
+  /**
+   * Decides whether or not a form's stored data should be loaded when the form is observed (for instance, by asking
+   * the user). Receives the form's stored values, keyed by field `name`, and is only called when stored values exist.
+   * Declined data is cleared. Only relevant when the `automate` option enables `loading`.
+   */
+  shouldRestore?(form: HTMLFormElement, storedSnapshot: Record<string, unknown>): boolean | Promise<boolean>;
+
+  /**
+   * Returns the value that should be stored for a field (instead of the default value). Only called for fields whose
+   * values would be stored by default. Returning `undefined` removes the field's stored value instead. Fields can
+   * override this hook with {@link FormStorageObserver.configure}.
+   */
+  serialize?: StorageTransforms["serialize"];
+
+  /**
+   * Returns the value that should be applied to a field when its stored value is loaded (instead of the stored value
+   * itself). Fields can override this hook with {@link FormStorageObserver.configure}.
+   */
+  deserialize?: StorageTransforms["deserialize"];
+
+  /**
+   * Mirrors the values of an observed form's fields into the page's URL search params. Values are mirrored whenever
+   * they're saved in response to an event. The values in the URL are loaded when a form is observed (taking precedence
+   * over stored values) and whenever a `popstate` event occurs. By default, the URL is left alone.
+   * - `replace`: The URL is updated with `history.replaceState`.
+   * - `push`: The URL is updated with `history.pushState`. (Every change creates a new history entry.)
+   */
+  searchParams?: "replace" | "push";
+
+  /**
+   * Loads a form's fields in small chunks (yielding to the main thread between chunks) when all of the form's data
+   * is loaded, instead of loading every field at once. Fields listed in the `priority` option are loaded first,
+   * followed by the fields that are visible in the viewport. In this mode, loading a form's data always runs
+   * asynchronously. Defaults to `false`.
+   */
+  incremental?: boolean | IncrementalLoadingOptions;
+
+  /**
+   * Called whenever a field's value can't be saved in response to an event (for example, because the storage quota
+   * was exceeded), and whenever a field's stored entry can't be parsed or decrypted when it's loaded. (Such entries
+   * are skipped.) Also called whenever a form's data can't be loaded automatically (in which case `name` is an empty
+   * string). By default, errors that occur while saving are thrown from the observer's event listener.
+   */
+  onError?(error: unknown, form: HTMLFormElement, name: string): void;
+
+  /**
+   * Determines how the observer makes room for new values in the storage backend. By default, nothing is evicted.
+   * - `oldest-forms`: When a value can't be saved because the storage quota was exceeded, the regular data of the
+   *   least recently saved forms is removed (one form at a time) until the value fits. (Snapshots are kept.) Only
+   *   supported when the `key` option isn't a function.
+   * - `{ maxBytesPerForm }`: Values that would cause a form's stored data to exceed its byte budget are rejected with
+   *   a `QuotaExceededError` (which is passed to `onError`).
+   */
+  eviction?: "oldest-forms" | StorageBudget;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
-interface FormStorageObserver extends FormObserver {}
+export interface StorageBudget {
+  /**
+   * The maximum number of bytes that a form's stored data can occupy. (Sizes are measured in UTF-16, just like
+   * `localStorage` measures them. Stored `File`s are not counted.)
+   */
+  maxBytesPerForm: number;
+}
+
+export interface IncrementalLoadingOptions {
+  /** The number of fields that are loaded before yielding to the main thread. Defaults to `20`. */
+  chunkSize?: number;
+
+  /** The names of the fields that should be loaded first (in order) */
+  priority?: string[];
+}
+
+export interface FileStorageOptions {
+  /** The maximum size (in bytes) of a single file. Defaults to `maxTotalSize`. */
+  maxFileSize?: number;
+
+  /** The maximum combined size (in bytes) of the files selected in a single field. Defaults to 10 MiB. */
+  maxTotalSize?: number;
+
+  /** The name of the `IndexedDB` database to use. Defaults to `"form-observer-files"`. */
+  database?: string;
+
+  /** The name of the object store to use within the `database`. Defaults to `"form-files"`. */
+  store?: string;
+}
+
+/** Upgrades a field's stored `value` by exactly one version. */
+export type StorageMigration = (value: unknown, name: string) => unknown;
+
+/**
+ * A rule used to match form fields. Strings match fields by `name`, `{ selector }` objects match fields by CSS
+ * selector, and functions match the fields for which they return `true`.
+ */
+export type StorageFieldRule = string | { selector: string } | ((field: FormField) => boolean);
+
+/**
+ * The protocol that (form-associated custom) elements can implement to persist structured (non-string) state.
+ * Elements that only define a `formStateRestoreCallback` have their `value` saved instead.
+ */
+export interface StatefulFormField {
+  /** The structured state of the element. Read when the element is saved, and assigned when it is loaded. */
+  formStorageState?: unknown;
+
+  /** Called with the stored state (and a `mode` of `"restore"`) when the element is loaded. */
+  formStateRestoreCallback?(state: unknown, mode: "restore" | "autocomplete"): void;
+}
+
+/**
+ * A field whose value can be stored. (Radio button groups and other groups of fields that share the same `name` are
+ * represented by a `RadioNodeList`.)
+ */
+export type StorableField =
+  | HTMLButtonElement
+  | HTMLInputElement
+  | HTMLSelectElement
+  | HTMLTextAreaElement
+  | RadioNodeList;
+
+/** The hooks that transform a field's value when it is stored and when it is loaded */
+export interface StorageTransforms {
+  serialize?(field: StorableField): unknown;
+  deserialize?(stored: unknown, field: StorableField): unknown;
+}
+
+/** A named copy of a form's data */
+export interface FormStorageSnapshot {
+  name: string;
+
+  /** The time at which the snapshot was saved (in milliseconds since the Unix epoch) */
+  savedAt: number;
+}
+
+/**
+ * A summary of the stored entries that were encountered while loading a form's data. Each list contains field `name`s.
+ */
+export interface FormStorageLoadReport {
+  /** The fields whose stored values were loaded */
+  restored: string[];
+
+  /**
+   * The fields whose stored values were loaded but not accepted (for example, a `<select>` whose stored value is no
+   * longer one of its `option`s)
+   */
+  mismatched: string[];
+
+  /**
+   * The fields whose stored entries were not loaded (because the field is ignored, or because the entry expired,
+   * couldn't be decrypted, or couldn't be migrated)
+   */
+  skipped: string[];
+
+  /** The stored entries (or requested names) that don't belong to any of the form's fields */
+  missing: string[];
+}
+
+/** A portable (JSON-compatible) copy of all of the values that were stored for a form */
+export interface FormStorageExport {
+  /** The version of the export format */
+  fso: 1;
+
+  /** The `name` of the form that the values were exported from */
+  form: string;
+
+  /** The version of the form's data schema that the values belong to */
+  version?: number;
+
+  /** The stored values, keyed by field `name` */
+  values: Record<string, unknown>;
+}
+
+export interface FormStorageImportOptions {
+  /** Loads the form's stored data into its fields after the values are imported */
+  apply?: boolean;
+}
+
+export interface FormStoragePruneOptions {
+  /**
+   * The names of the forms whose data should be kept. (The data of every other form is removed.) Unnamed forms are
+   * identified as `global-scope`.
+   */
+  keep?: string[];
+}
+
+interface FormStorageObserver extends FormObserver {
+  /**
+   * Loads all of the data in the observer's storage backend related to the provided `form`. Returns a report of the
+   * stored entries that were restored, mismatched, skipped, or missing. Runs asynchronously if the storage backend is
+   * asynchronous, if the data needs to be decrypted, or if the data is loaded `incremental`ly.
+   */
+  load(form: HTMLFormElement): FormStorageLoadReport | Promise<FormStorageLoadReport>;
+
+  /**
+   * Loads the data in the observer's storage backend for the field that has the provided `name` and belongs to
+   * the provided `form`. Runs asynchronously if the storage backend is asynchronous or if the data needs to
+   * be decrypted.
+   */
+  load(form: HTMLFormElement, name: string): FormStorageLoadReport | Promise<FormStorageLoadReport>;
+
+  /**
+   * Clears all of the data in the observer's storage backend related to the provided `form`.
+   * Runs asynchronously if the storage backend is asynchronous.
+   */
+  clear(form: HTMLFormElement): void | Promise<void>;
+
+  /**
+   * Clears the data in the observer's storage backend for the field that has the provided `name` and belongs to
+   * the provided `form`. Runs asynchronously if the storage backend is asynchronous.
+   */
+  clear(form: HTMLFormElement, name: string): void | Promise<void>;
+
+  /**
+   * Saves all of the data for the provided `form` to the observer's storage backend (immediately).
+   * Runs asynchronously if the storage backend is asynchronous or if the data needs to be encrypted.
+   */
+  save(form: HTMLFormElement): void | Promise<void>;
+
+  /**
+   * Saves the data for the field that has the provided `name` and belongs to the provided `form` to the
+   * observer's storage backend (immediately). Runs asynchronously if the storage backend is asynchronous or if
+   * the data needs to be encrypted.
+   */
+  save(form: HTMLFormElement, name: string): void | Promise<void>;
+
+  /**
+   * Removes all of the _expired_ form data in the observer's storage backend (for every form). When the `keep` option
+   * is provided, all of the data that belongs to the forms which aren't listed in `keep` is removed as well. Runs
+   * asynchronously if the storage backend is asynchronous.
+   */
+  prune(options?: FormStoragePruneOptions): void | Promise<void>;
+
+  /**
+   * Removes the data in the observer's storage backend that was stored for the provided `form`, but that doesn't
+   * belong to any of its fields. Runs asynchronously if the storage backend is asynchronous.
+   */
+  prune(form: HTMLFormElement): void | Promise<void>;
+
+  /**
+   * Exports all of the data in the observer's storage backend related to the provided `form` (excluding `File`s).
+   * Runs asynchronously if the storage backend is asynchronous or if the data needs to be decrypted.
+   *
+   * @example
+   * const data = await observer.export(form);
+   * await navigator.clipboard.writeText(JSON.stringify(data));
+   */
+  export(form: HTMLFormElement): FormStorageExport | Promise<FormStorageExport>;
+
+  /**
+   * Validates the provided (exported) `data` and writes its values to the observer's storage backend for the
+   * provided `form`. Values that belong to unknown fields, file inputs, or fields whose values wouldn't be saved
+   * (for example, ignored or sensitive fields) are ignored. Runs asynchronously if the storage backend is
+   * asynchronous or if the data needs to be encrypted.
+   */
+  import(form: HTMLFormElement, data: unknown, options?: FormStorageImportOptions): void | Promise<void>;
+
+  /**
+   * Configures the `serialize` and `deserialize` hooks that are used for the field(s) with the provided `name`.
+   * These hooks take precedence over the ones that were provided to the constructor.
+   *
+   * @param name The `name` of the form field
+   *
+   * @example
+   * // Normalize the whitespace of stored values, and re-map a legacy value when it is loaded
+   * observer.configure("color", {
+   *   serialize: (field) => field.value.trim(),
+   *   deserialize: (stored) => (stored === "grey" ? "gray" : stored),
+   * });
+   */
+  configure(name: string, transforms: StorageTransforms): void;
+
+  /**
+   * Saves a copy of the provided `form`'s current data under the provided `snapshotName` (replacing any snapshot
+   * that already has that name). Snapshots are stored separately from the form's regular data. Runs asynchronously
+   * if the storage backend is asynchronous or if the data needs to be encrypted.
+   */
+  saveSnapshot(form: HTMLFormElement, snapshotName: string): void | Promise<void>;
+
+  /**
+   * Lists the snapshots that were saved for the provided `form` (most recent first). Runs asynchronously if the
+   * storage backend is asynchronous.
+   */
+  listSnapshots(form: HTMLFormElement): FormStorageSnapshot[] | Promise<FormStorageSnapshot[]>;
+
+  /**
+   * Loads the snapshot that has the provided `snapshotName` into the provided `form`. (The form's regular data is
+   * left alone.) Runs asynchronously if the storage backend is asynchronous or if the data needs to be decrypted.
+   */
+  loadSnapshot(form: HTMLFormElement, snapshotName: string): FormStorageLoadReport | Promise<FormStorageLoadReport>;
+
+  /**
+   * Deletes the snapshot that has the provided `snapshotName` from the provided `form`'s snapshots (including the
+   * values of fields that no longer belong to the `form`). Runs asynchronously if the storage backend is asynchronous.
+   */
+  deleteSnapshot(form: HTMLFormElement, snapshotName: string): void | Promise<void>;
+
+  /**
+   * Immediately saves all of the field values whose writes are still pending (due to the `debounce` or `throttle`
+   * options). Runs asynchronously if any of the writes are asynchronous.
+   */
+  flush(): void | Promise<void>;
+}
 
 declare const FormStorageObserver: FormStorageObserverConstructor;
 export default FormStorageObserver;
+
+/**
+ * Creates a {@link FormStorageAdapter} that stores form data in `localStorage`. (This is the default storage backend
+ * used by the `FormStorageObserver`.)
+ */
+export function createLocalStorageAdapter(): FormStorageAdapter;
+
+/** Creates a {@link FormStorageAdapter} that stores form data in `sessionStorage`. */
+export function createSessionStorageAdapter(): FormStorageAdapter;
+
+/**
+ * Creates a {@link FormStorageAdapter} that stores form data in memory. The data only lasts as long as the adapter
+ * does. (Useful for testing and for environments that lack the Web Storage API.)
+ */
+export function createMemoryStorageAdapter(): FormStorageAdapter;
+
+/** Creates an _asynchronous_ {@link FormStorageAdapter} that stores form data in `IndexedDB`. */
+export function createIndexedDBStorageAdapter(options?: {
+  /** The name of the `IndexedDB` database to use. Defaults to `"form-observer"`. */
+  database?: string;
+
+  /** The name of the object store to use within the `database`. Defaults to `"form-storage"`. */
+  store?: string;
+}): FormStorageAdapter;
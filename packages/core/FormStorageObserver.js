@@ -5,7 +5,8 @@ import { assertElementIsForm } from "./utils/assertions.js";
  * @typedef {Object} FormStorageObserverOptions
  * @property {"loading" | "deletion" | "both" | "neither"} [automate] Indicates whether or not the observer should
  * automate the loading/removal of a form's `localStorage` data.
- * - `loading` (Default): A form's data will automatically be loaded from `localStorage` when it is observed.
+ * - `loading` (Default): A form's data will automatically be loaded from `localStorage` when it is observed (and
+ *   again when the page is restored from the back/forward cache).
  * - `deletion`: A form's data will automatically be removed from `localStorage` when it is unobserved.
  * - `both`: Behaves as if `loading` and `deletion` were specified simultaneously.
  * - `neither`: The observer will not automate any data loading or data removal.
@@ -13,12 +14,438 @@ import { assertElementIsForm } from "./utils/assertions.js";
  * @property {boolean} [useEventCapturing] Indicates that the observer's event listener should be called during the
  * event capturing phase instead of the event bubbling phase. Defaults to `false`.
  * See {@link https://www.w3.org/TR/DOM-Level-3-Events/#event-flow DOM Event Flow}
+ *
+ * @property {FormStorageAdapter} [storage] The storage backend that the observer reads form data from and writes
+ * form data to. Defaults to an adapter for `localStorage`.
+ *
+ * @property {string | ((form: HTMLFormElement, fieldName: string) => string)} [key] Determines the storage keys
+ * that the observer uses. A `string` is used as a namespace which precedes the default keys (for example,
+ * `user-42:form:my-form:my-field`). A function returns the entire key for the provided `form`'s field.
+ * (In the `record` format, the function is called with an empty `fieldName` to get the key of the form's record.)
+ * By default, keys are derived from the `name`s of the form and its fields.
+ *
+ * @property {number} [expiresIn] The number of milliseconds that a field's stored value remains valid after it is
+ * saved. Expired values are ignored (and removed) when data is loaded. By default, stored values never expire.
+ *
+ * @property {CryptoKey} [encryptionKey] An `AES-GCM` key used to encrypt every value that the observer stores (and to
+ * decrypt every value that the observer loads). Because the Web Crypto API is asynchronous, providing this option
+ * causes the observer to save and load data asynchronously.
+ *
+ * @property {number} [version] The version of the form's data schema. When provided, every stored value is tagged
+ * with this version. (Values that were stored without a version are treated as version `0`.) Outdated values
+ * are upgraded with the `migrations` when they are loaded. By default, stored values are not versioned.
+ *
+ * @property {Record<number, StorageMigration>} [migrations] The functions used to upgrade outdated stored values,
+ * keyed by the version that they upgrade _from_. (For example, `migrations[1]` upgrades a value from version `1`
+ * to version `2`.) Only relevant when a `version` is provided.
+ *
+ * @property {(form: HTMLFormElement, name: string, version: number) => void} [onDiscard] Called whenever a stored
+ * value is discarded because it could not be migrated to the current `version`. (This happens when a migration is
+ * missing, or when the value belongs to a _newer_ version.)
+ *
+ * @property {boolean} [sync] Indicates that the observer should keep its observed forms synchronized with the changes
+ * that are saved by other browsing contexts (such as other tabs) that have the same forms open. Incoming values are
+ * loaded into the matching observed form. Defaults to `false`.
+ *
+ * @property {"preserve-focused" | "overwrite"} [syncConflicts] Determines how incoming values are handled when the
+ * user is interacting with the field that they belong to. Only relevant when `sync` is enabled.
+ * - `preserve-focused` (Default): Incoming values are not applied to the field that currently has focus.
+ * - `overwrite`: Incoming values are always applied.
+ *
+ * @property {"native" | "custom"} [restoreEvents] Dispatches events for the fields whose values are restored by
+ * `load` (or received from other browsing contexts), so that other code can react to the restored values. Afterwards,
+ * a bubbling `formstorage:load` event (whose `detail.names` lists the restored fields) is dispatched on the form.
+ * By default, no events are dispatched.
+ * - `native`: Bubbling `input` and `change` events are dispatched on each restored field.
+ * - `custom`: A bubbling `formstorage:restore` event is dispatched on each restored field.
+ *
+ * @property {number} [debounce] The number of milliseconds to wait after a field's most recent event before saving
+ * its value. (Values are coalesced per field.) Pending values are saved when the page is hidden, or when `flush`
+ * is called. Takes precedence over `throttle`. By default, values are saved immediately.
+ *
+ * @property {number} [throttle] The minimum number of milliseconds between the saves of a field's value. A field's
+ * latest value is always saved at the end of the interval. Pending values are saved when the page is hidden, or
+ * when `flush` is called. By default, values are saved immediately.
+ *
+ * @property {OneOrMany<StorageFieldRule>} [include] The rule(s) that a field must match (at least one of) in order for
+ * its data to be saved and loaded. By default, all supported fields are included.
+ *
+ * @property {OneOrMany<StorageFieldRule>} [exclude] The rule(s) that prevent a matching field's data from being saved
+ * and loaded. (Exclusions take precedence over inclusions.)
+ *
+ * @property {"field" | "record"} [format] Determines how a form's data is laid out in the storage backend.
+ * - `field` (Default): Every field's value is stored under its own key.
+ * - `record`: All of a form's values are stored together (as a single JSON object) under one key.
+ *
+ * @property {boolean | FileStorageOptions} [files] Enables the storage of the `File`s selected in
+ * `<input type="file">` elements. Files are always stored in `IndexedDB` (regardless of the `storage` option),
+ * and they are restored into their fields with a `DataTransfer`. Defaults to `false`.
+ *
+ * @property {OneOrMany<"submit" | "reset">} [clearOn] The form event(s) that cause an observed form's stored data to
+ * be cleared. (Forms that fail validation don't emit `submit` events, so their data is kept.) Events that are
+ * canceled with `preventDefault()` don't clear anything. Forms that are submitted with JavaScript should be cleared
+ * manually after the submission succeeds. By default, stored data is only cleared when requested (or when
+ * `automate`d).
+ *
+ * @property {(form: HTMLFormElement, storedSnapshot: Record<string, unknown>) => boolean | Promise<boolean>}
+ * [shouldRestore] Decides whether or not a form's stored data should be loaded when the form is observed (for
+ * instance, by asking the user). Receives the form's stored values, keyed by field `name`, and is only called when
+ * stored values exist. Declined data is cleared. Only relevant when the `automate` option enables `loading`.
+ *
+ * @property {StorageTransforms["serialize"]} [serialize] Returns the value that should be stored for a field (instead
+ * of the default value). Only called for fields whose values would be stored by default. Returning `undefined` removes
+ * the field's stored value instead. Fields can override this hook with {@link FormStorageObserver.configure}.
+ *
+ * @property {StorageTransforms["deserialize"]} [deserialize] Returns the value that should be applied to a field when
+ * its stored value is loaded (instead of the stored value itself). Fields can override this hook with
+ * {@link FormStorageObserver.configure}.
+ *
+ * @property {"replace" | "push"} [searchParams] Mirrors the values of an observed form's fields into the page's URL
+ * search params (so that the form's state can be shared and navigated with the back button). Values are mirrored
+ * whenever they're saved in response to an event. The values in the URL are loaded when a form is observed (taking
+ * precedence over stored values) and whenever a `popstate` event occurs. By default, the URL is left alone.
+ * - `replace`: The URL is updated with `history.replaceState`.
+ * - `push`: The URL is updated with `history.pushState`. (Every change creates a new history entry.)
+ *
+ * @property {boolean | IncrementalLoadingOptions} [incremental] Loads a form's fields in small chunks (yielding to
+ * the main thread between chunks) when all of the form's data is loaded, instead of loading every field at once.
+ * Fields listed in the `priority` option are loaded first, followed by the fields that are visible in the viewport.
+ * In this mode, loading a form's data always runs asynchronously. Defaults to `false`.
+ *
+ * @property {(error: unknown, form: HTMLFormElement, name: string) => void} [onError] Called whenever a field's value
+ * can't be saved in response to an event (for example, because the storage quota was exceeded), and whenever a
+ * field's stored entry can't be parsed or decrypted when it's loaded. (Such entries are skipped.) Also called whenever
+ * a form's data can't be loaded automatically (in which case `name` is an empty string). By default, errors that
+ * occur while saving are thrown from the observer's event listener.
+ *
+ * @property {"oldest-forms" | StorageBudget} [eviction] Determines how the observer makes room for new values in the
+ * storage backend. By default, nothing is evicted.
+ * - `oldest-forms`: When a value can't be saved because the storage quota was exceeded, the regular data of the
+ *   least recently saved forms is removed (one form at a time) until the value fits. (Snapshots are kept.) Only
+ *   supported when the `key` option isn't a function.
+ * - `{ maxBytesPerForm }`: Values that would cause a form's stored data to exceed its byte budget are rejected with
+ *   a `QuotaExceededError` (which is passed to `onError`).
+ */
+
+/**
+ * @typedef {Object} StorageBudget
+ * @property {number} maxBytesPerForm The maximum number of bytes that a form's stored data can occupy. (Sizes are
+ * measured in UTF-16, just like `localStorage` measures them. Stored `File`s are not counted.)
+ */
+
+/**
+ * @typedef {Object} IncrementalLoadingOptions
+ * @property {number} [chunkSize] The number of fields that are loaded before yielding to the main thread.
+ * Defaults to `20`.
+ * @property {string[]} [priority] The names of the fields that should be loaded first (in order)
+ */
+
+/**
+ * @typedef {Object} FileStorageOptions
+ * @property {number} [maxFileSize] The maximum size (in bytes) of a single file. Defaults to `maxTotalSize`.
+ * @property {number} [maxTotalSize] The maximum combined size (in bytes) of the files selected in a single field.
+ * Defaults to 10 MiB.
+ * @property {string} [database] The name of the `IndexedDB` database to use. Defaults to `"form-observer-files"`.
+ * @property {string} [store] The name of the object store to use within the `database`. Defaults to `"form-files"`.
+ */
+
+/**
+ * A rule used to match form fields. Strings match fields by `name`, `{ selector }` objects match fields by CSS
+ * selector, and functions match the fields for which they return `true`.
+ * @typedef {string | { selector: string } | ((field: import("./types.d.ts").FormField) => boolean)} StorageFieldRule
+ */
+
+/**
+ * The protocol that (form-associated custom) elements can implement to persist structured (non-string) state.
+ * Elements with a `formStorageState` property have that property read when they're saved and assigned when they're
+ * loaded. Elements that only define a `formStateRestoreCallback` have it called with the stored state (and a `mode`
+ * of `"restore"`) when they're loaded. (Their `value` is saved instead.)
+ * @typedef {Object} StatefulFormField
+ * @property {unknown} [formStorageState]
+ * @property {(state: unknown, mode: "restore" | "autocomplete") => void} [formStateRestoreCallback]
+ */
+
+/**
+ * A field whose value can be stored. (Radio button groups and other groups of fields that share the same `name` are
+ * represented by a `RadioNodeList`.)
+ * @typedef {HTMLButtonElement | HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | RadioNodeList} StorableField
+ */
+
+/**
+ * The hooks that transform a field's value when it is stored and when it is loaded
+ * @typedef {Object} StorageTransforms
+ * @property {(field: StorableField) => unknown} [serialize]
+ * @property {(stored: unknown, field: StorableField) => unknown} [deserialize]
+ */
+
+/**
+ * A named copy of a form's data
+ * @typedef {Object} FormStorageSnapshot
+ * @property {string} name
+ * @property {number} savedAt The time at which the snapshot was saved (in milliseconds since the Unix epoch)
+ */
+
+/**
+ * A summary of the stored entries that were encountered while loading a form's data. Each list contains field `name`s.
+ * @typedef {Object} FormStorageLoadReport
+ * @property {string[]} restored The fields whose stored values were loaded
+ * @property {string[]} mismatched The fields whose stored values were loaded but not accepted (for example, a
+ * `<select>` whose stored value is no longer one of its `option`s)
+ * @property {string[]} skipped The fields whose stored entries were not loaded (because the field is ignored, or
+ * because the entry expired, couldn't be decrypted, or couldn't be migrated)
+ * @property {string[]} missing The stored entries (or requested names) that don't belong to any of the form's fields
+ */
+
+/**
+ * @typedef {keyof FormStorageLoadReport} FieldLoadStatus The outcome of loading a single field's stored data
+ */
+
+/**
+ * A portable (JSON-compatible) copy of all of the values that were stored for a form
+ * @typedef {Object} FormStorageExport
+ * @property {typeof exportVersion} fso The version of the export format
+ * @property {string} form The `name` of the form that the values were exported from
+ * @property {number} [version] The version of the form's data schema that the values belong to
+ * @property {Record<string, unknown>} values The stored values, keyed by field `name`
+ */
+
+/**
+ * @typedef {Object} FormStorageImportOptions
+ * @property {boolean} [apply] Loads the form's stored data into its fields after the values are imported
+ */
+
+/**
+ * @typedef {Object} FormStoragePruneOptions
+ * @property {string[]} [keep] The names of the forms whose data should be kept. (The data of every other form is
+ * removed.) Unnamed forms are identified as `global-scope`.
+ */
+
+/**
+ * @template T
+ * @typedef {import("./types.d.ts").OneOrMany<T>} OneOrMany
+ */
+
+/**
+ * Upgrades a field's stored `value` by exactly one version.
+ * @typedef {(value: unknown, name: string) => unknown} StorageMigration
+ */
+
+/**
+ * The interface used by the {@link FormStorageObserver} to interact with a storage backend. Every method may run
+ * synchronously or asynchronously (by returning a `Promise`).
+ *
+ * @typedef {Object} FormStorageAdapter
+ * @property {(key: string) => string | null | Promise<string | null>} get Retrieves the value stored for `key`.
+ * Returns `null` if no value exists.
+ * @property {(key: string, value: string) => void | Promise<void>} set Stores the provided `value` under `key`.
+ * @property {(key: string) => void | Promise<void>} remove Removes the value stored for `key`.
+ * @property {() => string[] | Promise<string[]>} keys Returns all of the keys that exist in the storage backend.
+ */
+
+/**
+ * @typedef {Object} StorageConfig The configuration used by the internal data storage/loading utilities.
+ * @property {FormStorageAdapter} storage
+ * @property {FormStorageObserverOptions["key"]} [key]
+ * @property {number} [expiresIn]
+ * @property {CryptoKey} [encryptionKey]
+ * @property {number} [version]
+ * @property {Readonly<Record<number, StorageMigration>>} [migrations]
+ * @property {(form: HTMLFormElement, name: string, version: number) => void} [onDiscard]
+ * @property {FormStorageObserverOptions["onError"]} [onError]
+ * @property {FormStorageObserverOptions["eviction"]} [eviction]
+ * @property {ReadonlyArray<StorageFieldRule>} [include]
+ * @property {ReadonlyArray<StorageFieldRule>} [exclude]
+ * @property {FormStorageObserverOptions["format"]} [format]
+ * @property {FileStore} [files]
+ * @property {StorageTransforms["serialize"]} [serialize]
+ * @property {StorageTransforms["deserialize"]} [deserialize]
+ * @property {Map<string, StorageTransforms>} [transforms] The hooks that were `configure`d for specific fields
+ */
+
+/**
+ * The internal storage backend used for the `File`s selected in `<input type="file">` elements
+ *
+ * @typedef {Object} FileStore
+ * @property {(key: string) => Promise<File[] | undefined>} get
+ * @property {(key: string, files: File[]) => Promise<void>} set
+ * @property {(key: string) => Promise<void>} remove
+ * @property {number} maxFileSize
+ * @property {number} maxTotalSize
+ */
+
+/**
+ * The (versioned) format used to store a field's value alongside its metadata. Values that were stored without any
+ * metadata are stored as raw JSON instead.
+ *
+ * @typedef {Object} StorageEnvelope
+ * @property {typeof envelopeVersion} fso The version of the envelope format
+ * @property {unknown} [value] The field's stored value (if it wasn't encrypted)
+ * @property {EncryptedValue} [encrypted] The field's stored value (if it was encrypted)
+ * @property {number} [expires] The timestamp (in milliseconds) after which the stored value is considered stale
+ * @property {number} [version] The version of the form's data schema that the stored value belongs to
+ */
+
+/**
+ * The format used to store all of a form's entries under a single key (when the `format` option is `record`).
+ * Every entry is keyed by the `name` of the field that it belongs to. (An entry is either a raw JSON value or
+ * a {@link StorageEnvelope}.)
+ *
+ * @typedef {Record<string, unknown>} StorageRecord
+ */
+
+/**
+ * @typedef {Object} EncryptedValue
+ * @property {string} iv The Base64-encoded initialization vector used to encrypt the value
+ * @property {string} data The Base64-encoded ciphertext of the value's JSON
+ */
+
+/**
+ * @typedef {Object} StoredValue A wrapper for a _usable_ value that was read from storage
+ * @property {unknown} value
+ */
+
+/**
+ * @typedef {Object} SyncMessage The message broadcast to other browsing contexts after a field's value is saved
+ * @property {string} form The name of the form that owns the field
+ * @property {string} name The name of the field
+ */
+
+/**
+ * @typedef {Object} PendingWrite A (debounced or throttled) write that has not been flushed to storage yet
+ * @property {HTMLFormElement} form The form that the write belongs to
+ * @property {(() => void | Promise<void>) | undefined} write Saves the field's latest value. Only `undefined` when a
+ * throttled field has not emitted any events since its last save.
+ * @property {ReturnType<typeof setTimeout>} timeout
+ */
+
+const envelopeVersion = 1;
+const exportVersion = 1;
+
+/** Represents a stored entry that could not be parsed (and is therefore unusable) */
+const corruptEntry = Symbol("corrupt entry");
+
+/** @type {ReadonlyArray<FieldLoadStatus>} */
+const loadStatuses = Object.freeze(["restored", "mismatched", "skipped", "missing"]);
+
+/**
+ * The `autocomplete` tokens of fields whose data is too sensitive to store
+ * (see {@link https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#autofill Autofill}).
+ */
+const sensitiveAutocompleteTokens = new Set([
+  "cc-number",
+  "cc-csc",
+  "cc-exp",
+  "cc-exp-month",
+  "cc-exp-year",
+  "one-time-code",
+  "current-password",
+  "new-password",
+]);
+
+/**
+ * @type {WeakMap<FormStorageAdapter, Map<string, Promise<void>>>} The _asynchronous_ record updates that are still
+ * running for each storage backend, keyed by record key. (Used to prevent concurrent updates from overwriting
+ * each other.)
  */
+const pendingRecordUpdates = new WeakMap();
+
+/** The name of the `BroadcastChannel` used to synchronize form data across browsing contexts */
+const syncChannelName = "form-storage-observer";
+
+/** @type {Readonly<StorageConfig>} The configuration used by the static `FormStorageObserver` methods */
+const defaultConfig = Object.freeze({ storage: createLocalStorageAdapter() });
 
 class FormStorageObserver extends FormObserver {
   /** @readonly @type {Required<FormStorageObserverOptions>["automate"]} */
   #automate;
 
+  /** @readonly @type {Readonly<StorageConfig>} */
+  #config;
+
+  /** @readonly @type {FormStorageObserverOptions["syncConflicts"]} Only defined when synchronization is enabled */
+  #syncConflicts;
+
+  /** @readonly @type {FormStorageObserverOptions["restoreEvents"]} */
+  #restoreEvents;
+
+  /** @type {boolean} Indicates that restore events are being dispatched (so that they aren't saved again) */
+  #restoring = false;
+
+  /** @readonly @type {ReadonlyArray<"submit" | "reset">} */
+  #clearOn;
+
+  /** @readonly @type {FormStorageObserverOptions["shouldRestore"]} */
+  #shouldRestore;
+
+  /**
+   * @readonly Clears the data of the form that emitted the provided `event` (in response to the `clearOn` option),
+   * unless the event is canceled. (The check waits until the event's other listeners have run.)
+   * @param {Event} event
+   * @returns {void}
+   */
+  #clearOnEvent = (event) => {
+    const form = /** @type {HTMLFormElement} */ (event.currentTarget);
+    setTimeout(() => {
+      if (!event.defaultPrevented) this.clear(form);
+    });
+  };
+
+  /** @readonly @type {FormStorageObserverOptions["searchParams"]} */
+  #searchParams;
+
+  /** @readonly @type {Readonly<Required<IncrementalLoadingOptions>> | undefined} Only defined in incremental mode */
+  #incremental;
+
+  /** @readonly @type {Set<HTMLFormElement>} The observed forms whose values are mirrored into the URL */
+  #mirroredForms = new Set();
+
+  /**
+   * @readonly Loads the values in the URL into every mirrored form (when the user navigates through the history)
+   * @returns {void}
+   */
+  #loadSearchParamsOnPopState = () => {
+    this.#mirroredForms.forEach((form) => this.#loadSearchParams(form, false));
+  };
+
+  /** @readonly @type {Set<HTMLFormElement>} The observed forms that are synchronized across browsing contexts */
+  #syncedForms = new Set();
+
+  /** @type {BroadcastChannel | undefined} Only open while there are {@link #syncedForms} */
+  #channel;
+
+  /** @readonly @type {{ type: "debounce" | "throttle"; delay: number } | undefined} */
+  #writeTiming;
+
+  /** @readonly @type {Map<string, PendingWrite>} The writes that are waiting to be saved, keyed by storage key */
+  #pendingWrites = new Map();
+
+  /**
+   * @readonly Saves all of the pending writes when the page is hidden or frozen (because the page may never return)
+   * @param {Event} event
+   * @returns {void}
+   */
+  #flushOnHide = (event) => {
+    if (event.type !== "visibilitychange" || document.visibilityState === "hidden") this.flush();
+  };
+
+  /** @readonly @type {Set<HTMLFormElement>} The observed forms whose data is loaded automatically */
+  #restoredForms = new Set();
+
+  /**
+   * @readonly Reloads the data of every automatically-restored form when the page is restored from the back/forward
+   * cache (because the stored data may have changed while the page was cached)
+   * @param {PageTransitionEvent} event
+   * @returns {void}
+   */
+  #reconcileOnPageShow = (event) => {
+    if (!event.persisted) return;
+
+    this.#restoredForms.forEach((form) => {
+      const loading = this.#attempt(form, "", () => this.load(form));
+      if (this.#mirroredForms.has(form)) resolveThen(loading, () => this.#loadSearchParams(form, true));
+    });
+  };
+
   /**
    * @template {import("./types.d.ts").OneOrMany<import("./types.d.ts").EventType>} T
    * @overload
@@ -36,8 +463,75 @@ class FormStorageObserver extends FormObserver {
    * @param {FormStorageObserverOptions} [options]
    */
   constructor(types, options) {
-    super(types, eventListener, { passive: true, capture: options?.useEventCapturing });
+    /**
+     * Event Listener used to store `form` data in the configured storage backend
+     * @param {import("./types.d.ts").FormFieldEvent<import("./types.d.ts").EventType>} event
+     * @returns {void}
+     */
+    const listener = (event) => {
+      if (this.#restoring) return; // Restored values are already stored
+
+      const field = event.target;
+      // eslint-disable-next-line prefer-destructuring -- ESLint doesn't understand the necessary TS syntax
+      const form = /** @type {HTMLFormElement} */ (field.form);
+
+      // File Inputs (Files are saved immediately because they are rarely updated)
+      if (field instanceof HTMLInputElement && field.type === "file") {
+        resolveThen(
+          this.#attempt(form, field.name, () => saveFiles(form, field, this.#config)),
+          (saved) => {
+            if (saved) this.#broadcast(form, field.name);
+          },
+        );
+
+        return;
+      }
+
+      // Fields that share their `name` with other (non-radio) fields are stored together
+      const group = form.elements.namedItem(field.name);
+      const storedField = group instanceof RadioNodeList && !isRadiogroup(group) ? group : field;
+      const storableValue =
+        storedField instanceof RadioNodeList
+          ? getGroupStorableValue(storedField, this.#config)
+          : getStorableValue(storedField, this.#config);
+      if (!storableValue) return;
+
+      const value = serializeValue(form, field.name, storableValue, this.#config);
+      const searchParamValues = this.#searchParams && toSearchParamValues(storedField, storableValue.value);
+      this.#save(form, field.name, value, searchParamValues);
+    };
+
+    super(types, listener, { passive: true, capture: options?.useEventCapturing });
     this.#automate = options?.automate ?? "loading";
+    this.#restoreEvents = options?.restoreEvents;
+    this.#clearOn = options?.clearOn == null ? [] : toArray(options.clearOn);
+    this.#shouldRestore = options?.shouldRestore;
+    this.#searchParams = options?.searchParams;
+    if (options?.incremental) {
+      const { chunkSize = 20, priority = [] } = options.incremental === true ? {} : options.incremental;
+      this.#incremental = Object.freeze({ chunkSize, priority });
+    }
+    if (options?.sync) this.#syncConflicts = options.syncConflicts ?? "preserve-focused";
+    if (options?.debounce != null) this.#writeTiming = { type: "debounce", delay: options.debounce };
+    else if (options?.throttle != null) this.#writeTiming = { type: "throttle", delay: options.throttle };
+    this.#config = Object.freeze({
+      storage: options?.storage ?? defaultConfig.storage,
+      key: options?.key,
+      expiresIn: options?.expiresIn,
+      encryptionKey: options?.encryptionKey,
+      version: options?.version,
+      migrations: options?.migrations,
+      onDiscard: options?.onDiscard,
+      onError: options?.onError,
+      eviction: options?.eviction,
+      include: options?.include == null ? undefined : toArray(options.include),
+      exclude: options?.exclude == null ? undefined : toArray(options.exclude),
+      format: options?.format ?? "field",
+      files: options?.files ? createFileStore(options.files === true ? {} : options.files) : undefined,
+      serialize: options?.serialize,
+      deserialize: options?.deserialize,
+      transforms: new Map(),
+    });
   }
 
   /**
@@ -46,14 +540,21 @@ class FormStorageObserver extends FormObserver {
    */
   observe(form) {
     const newlyObserved = super.observe(form);
-    if (newlyObserved && (this.#automate === "loading" || this.#automate === "both")) FormStorageObserver.load(form);
+    const restoring = newlyObserved && (this.#automate === "loading" || this.#automate === "both");
+    const loading = restoring ? this.#attempt(form, "", () => this.#restore(form)) : undefined;
+
+    if (restoring) this.#restoredForms.add(form);
+    if (restoring && this.#restoredForms.size === 1) window.addEventListener("pageshow", this.#reconcileOnPageShow);
+    if (newlyObserved && this.#searchParams) this.#startMirroring(form, loading);
+    if (newlyObserved && this.#syncConflicts) this.#startSyncing(form);
+    if (newlyObserved) this.#clearOn.forEach((type) => form.addEventListener(type, this.#clearOnEvent));
     return newlyObserved;
   }
 
   /**
    * @overload Loads all of the data in `localStorage` related to the provided `form`.
    * @param {HTMLFormElement} form
-   * @returns {void}
+   * @returns {FormStorageLoadReport}
    */
 
   /**
@@ -62,99 +563,109 @@ class FormStorageObserver extends FormObserver {
    *
    * @param {HTMLFormElement} form
    * @param {string} name
-   * @returns {void}
+   * @returns {FormStorageLoadReport}
    */
 
   /**
    * @param {HTMLFormElement} form
    * @param {string} [name]
-   * @returns {void}
+   * @returns {FormStorageLoadReport}
    */
   static load(form, name) {
     assertElementIsForm(form);
+    const report = createLoadReport();
 
-    /* -------------------- 1st Overload -------------------- */
+    // 1st Overload
     if (name == null) {
-      /** @type {Set<string>} */
-      const loadedRadiogroups = new Set();
+      forEachFieldName(form, (fieldName) => {
+        const fieldReport = FormStorageObserver.load(form, fieldName);
+        loadStatuses.forEach((status) => report[status].push(...fieldReport[status]));
+      });
 
-      for (let i = 0; i < form.elements.length; i++) {
-        const field = /** @type {import("./types.d.ts").FormField} */ (form.elements[i]);
+      report.missing.push(.../** @type {string[]} */ (findMissingNames(form, defaultConfig)));
+      return report;
+    }
 
-        // Avoid loading the same `radiogroup` more than once
-        if (loadedRadiogroups.has(field.name)) {
-          const radiogroup = /** @type {RadioNodeList} */ (form.elements.namedItem(field.name));
-          i += radiogroup.length - 2; // Skip all remaining radio buttons
-          continue;
-        }
+    // 2nd Overload
+    const status = /** @type {FieldLoadStatus | undefined} */ (loadField(form, name, defaultConfig));
+    if (status) report[status].push(name);
+    return report;
+  }
 
-        // Keep track of radio button groups that have loaded their `localStorage` data
-        if (field.type === "radio") loadedRadiogroups.add(field.name);
+  /**
+   * @overload Loads all of the data in the observer's storage backend related to the provided `form`.
+   * Runs asynchronously if the storage backend is asynchronous, if the data needs to be decrypted, or if the data is
+   * loaded `incremental`ly.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {FormStorageLoadReport | Promise<FormStorageLoadReport>}
+   */
 
-        if (field.name) FormStorageObserver.load(form, field.name);
-      }
+  /**
+   * @overload Loads the data in the observer's storage backend for the field that has the provided `name` and
+   * belongs to the provided `form`. Runs asynchronously if the storage backend is asynchronous or if the data
+   * needs to be decrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @returns {FormStorageLoadReport | Promise<FormStorageLoadReport>}
+   */
 
-      return;
-    }
+  /**
+   * @param {HTMLFormElement} form
+   * @param {string} [name]
+   * @returns {FormStorageLoadReport | Promise<FormStorageLoadReport>}
+   */
+  load(form, name) {
+    assertElementIsForm(form);
+    return this.#load(form, name, this.#config);
+  }
 
-    /* -------------------- 2nd Overload -------------------- */
-    /* ---------- Argument Validation ---------- */
-    if (name === "") return; // Empty strings represent unnamed fields and are not allowed
+  /**
+   * Loads the data that was stored with the provided `config` into the provided `form` (or into the field that has
+   * the provided `name`), dispatching the configured `restoreEvents` afterwards.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string | undefined} name
+   * @param {Readonly<StorageConfig>} config
+   * @returns {FormStorageLoadReport | Promise<FormStorageLoadReport>}
+   */
+  #load(form, name, config) {
+    const report = createLoadReport();
 
-    const field = /** @type {import("./types.d.ts").FormField | RadioNodeList | null} */ (
-      form.elements.namedItem(name)
-    );
-    if (!field) return; // No field to load data into
+    /** @type {string[]} */
+    const restoredNames = [];
 
-    // Require that the provided `name` matches the name of the form field
-    if (!(field instanceof RadioNodeList) && field.name !== name) {
-      const err = `Expected to find a field with name "${name}", but instead found a field with name "${field.name}".`;
-      const hint = "Did you accidentally provide your field's `id` instead of your field's `name`?";
-      throw new Error(`${err} ${hint}`);
-    }
+    /**
+     * @param {string} fieldName
+     * @returns {void | Promise<void>}
+     */
+    const restore = (fieldName) => {
+      return resolveThen(loadField(form, fieldName, config), (status) => {
+        if (status) report[status].push(fieldName);
+        if (status === "restored" || status === "mismatched") restoredNames.push(fieldName);
+      });
+    };
 
-    /* ---------- Data Loading ---------- */
-    // The following elements do not have their "values" stored and are therefore ignored
-    if (field instanceof HTMLFieldSetElement) return;
-    if (field instanceof HTMLOutputElement) return;
-    if (field instanceof HTMLObjectElement) return;
-    if (field instanceof HTMLInputElement) {
-      if (field.type === "password" || field.type === "hidden" || field.type === "file") return;
+    // 2nd Overload
+    if (name != null) {
+      return resolveThen(restore(name), () => {
+        this.#dispatchRestoreEvents(form, restoredNames);
+        return report;
+      });
     }
 
-    const storedValueString = localStorage.getItem(getFieldKey(form.name, name));
-    if (!storedValueString) return; // No value was stored for this field
-
-    const storedValue = /** @type {unknown} */ (JSON.parse(storedValueString));
-
-    // Checkboxes
-    if (field instanceof HTMLInputElement && field.type === "checkbox") {
-      field.checked = /** @type {boolean} */ (storedValue);
-    }
-    // Multi-Selects
-    else if (field instanceof HTMLSelectElement && field.multiple && Array.isArray(storedValue)) {
-      // Loop over the `options` as long as there are stored values to read
-      /** @type {number | undefined} */
-      let brokenAt;
-
-      for (let i = 0; i < field.options.length; i++) {
-        if (!storedValue.length) {
-          brokenAt = i;
-          break;
-        }
-
-        const option = field.options[i];
-        const index = storedValue.findIndex((/** @type {string} */ v) => v === option.value);
-
-        option.selected = index >= 0;
-        if (index >= 0) storedValue.splice(index, 1);
-      }
+    // 1st Overload
+    const restoring = this.#incremental
+      ? forEachFieldNameIncrementally(form, restore, this.#incremental)
+      : forEachFieldName(form, restore);
 
-      // Deselect all remaining `options` after the stored values are emptied
-      for (let i = /** @type {number} */ (brokenAt); i < field.options.length; i++) field.options[i].selected = false;
-    }
-    // Other Form Fields
-    else field.value = /** @type {string} */ (storedValue);
+    const loading = resolveThen(restoring, () => findMissingNames(form, config));
+    return resolveThen(loading, (missingNames) => {
+      report.missing.push(...missingNames);
+      this.#dispatchRestoreEvents(form, restoredNames);
+      return report;
+    });
   }
 
   /**
@@ -163,10 +674,19 @@ class FormStorageObserver extends FormObserver {
    */
   unobserve(form) {
     const newlyUnobserved = super.unobserve(form);
-    if (newlyUnobserved && (this.#automate === "deletion" || this.#automate === "both")) {
-      FormStorageObserver.clear(form);
+    const deletesData = this.#automate === "deletion" || this.#automate === "both";
+
+    // Pending writes are saved before the form is unobserved (unless its data is about to be deleted anyway)
+    if (newlyUnobserved && !deletesData) this.#flushPendingWrites(form);
+    if (newlyUnobserved && deletesData) this.clear(form);
+    if (newlyUnobserved && this.#restoredForms.delete(form) && !this.#restoredForms.size) {
+      window.removeEventListener("pageshow", this.#reconcileOnPageShow);
     }
 
+    if (newlyUnobserved && this.#searchParams) this.#stopMirroring(form);
+    if (newlyUnobserved && this.#syncConflicts) this.#stopSyncing(form);
+    if (newlyUnobserved) this.#clearOn.forEach((type) => form.removeEventListener(type, this.#clearOnEvent));
+
     return newlyUnobserved;
   }
 
@@ -194,74 +714,2377 @@ class FormStorageObserver extends FormObserver {
     assertElementIsForm(form);
 
     // 2nd Overload
-    if (name) return localStorage.removeItem(getFieldKey(form.name, name));
+    if (name) return /** @type {void} */ (removeEntry(form, name, defaultConfig));
 
     // 1st Overload
-    for (let i = 0; i < form.elements.length; i++) {
-      // Note: We're assuming that this operation is fast enough not to warrant skipping duplicate radio buttons
-      const field = /** @type {import("./types.d.ts").FormField} */ (form.elements[i]);
-      if (field.name) localStorage.removeItem(getFieldKey(form.name, field.name));
-    }
+    return /** @type {void} */ (forEachFieldName(form, (fieldName) => FormStorageObserver.clear(form, fieldName)));
   }
-}
-
-/* -------------------- Utility Functions -------------------- */
-/*
- * TODO: Should we expose a static `FormStorageObserver.save` method instead for greater flexibility?
- * We'd have to update our tests if we did that.`
- */
-/**
- * Event Listener used to store `form` data in `localStorage`
- *
- * @param {import("./types.d.ts").FormFieldEvent<import("./types.d.ts").EventType>} event
- * @returns {void}
- */
-function eventListener(event) {
-  const field = event.target;
-  if (!field.name) return; // We only store "known" (named) form values
 
-  // The following elements are not relevant for form data storage and are therefore ignored
-  if (field instanceof HTMLFieldSetElement) return; // Isn't really supposed to have a value
-  if (field instanceof HTMLOutputElement) return; // Value is derived from its inputs
-  if (field instanceof HTMLObjectElement) return; // Doesn't seem like a relevant element for form data
+  /**
+   * @overload Clears all of the data in the observer's storage backend related to the provided `form`.
+   * Runs asynchronously if the storage backend is asynchronous.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void | Promise<void>}
+   */
 
-  // eslint-disable-next-line prefer-destructuring -- ESLint doesn't understand the necessary TS syntax
-  const form = /** @type {HTMLFormElement} */ (field.form);
-  const scope = getFieldKey(form.name, field.name);
+  /**
+   * @overload Clears the data in the observer's storage backend for the field that has the provided `name` and
+   * belongs to the provided `form`. Runs asynchronously if the storage backend is asynchronous.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @returns {void | Promise<void>}
+   */
 
-  // Multiselects
-  if (field instanceof HTMLSelectElement && field.multiple) {
-    /** @type {string[]} */
-    const values = [];
+  /**
+   * @param {HTMLFormElement} form
+   * @param {string} [name]
+   * @returns {void | Promise<void>}
+   */
+  clear(form, name) {
+    assertElementIsForm(form);
 
-    for (let i = 0; i < field.selectedOptions.length; i++) values.push(field.selectedOptions[i].value);
+    // Otherwise, the cleared data would be saved again
+    if (name) this.#cancelPendingWrite(getFieldKey(form, name, this.#config));
+    else
+      this.#pendingWrites.forEach((pendingWrite, key) => pendingWrite.form === form && this.#cancelPendingWrite(key));
 
-    localStorage.setItem(scope, JSON.stringify(values));
-    return;
+    return clearStoredData(form, name, this.#config);
   }
 
-  // Unique Input Scenarios
-  if (field instanceof HTMLInputElement) {
-    // Checkboxes
-    if (field.type === "checkbox") return localStorage.setItem(scope, JSON.stringify(field.checked));
+  /**
+   * @overload Saves all of the data for the provided `form` to `localStorage`.
+   * @param {HTMLFormElement} form
+   * @returns {void}
+   */
 
-    // Sensitive or Unsupported Inputs
-    if (field.type === "password" || field.type === "hidden" || field.type === "file") return;
-  }
+  /**
+   * @overload Saves the data for the field that has the provided `name` and belongs to the provided `form`
+   * to `localStorage`.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @returns {void}
+   */
 
-  // Other Form Fields
-  localStorage.setItem(scope, JSON.stringify(field.value));
-}
+  /**
+   * @param {HTMLFormElement} form
+   * @param {string} [name]
+   * @returns {void}
+   */
+  static save(form, name) {
+    assertElementIsForm(form);
 
-/**
- * Derives the proper `localStorage` key for a given `form`'s field
- *
- * @param {string} formName
- * @param {string} fieldName
- * @returns {`form:${string}:${string}`}
+    // 1st Overload
+    if (name == null) {
+      return /** @type {void} */ (forEachFieldName(form, (fieldName) => FormStorageObserver.save(form, fieldName)));
+    }
+
+    // 2nd Overload
+    saveField(form, name, defaultConfig);
+  }
+
+  /**
+   * @overload Saves all of the data for the provided `form` to the observer's storage backend (immediately).
+   * Runs asynchronously if the storage backend is asynchronous or if the data needs to be encrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void | Promise<void>}
+   */
+
+  /**
+   * @overload Saves the data for the field that has the provided `name` and belongs to the provided `form` to the
+   * observer's storage backend (immediately). Runs asynchronously if the storage backend is asynchronous or if
+   * the data needs to be encrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @returns {void | Promise<void>}
+   */
+
+  /**
+   * @param {HTMLFormElement} form
+   * @param {string} [name]
+   * @returns {void | Promise<void>}
+   */
+  save(form, name) {
+    assertElementIsForm(form);
+
+    // 1st Overload
+    if (name == null) return forEachFieldName(form, (fieldName) => this.save(form, fieldName));
+
+    // 2nd Overload
+    // The field's latest value is about to be saved anyway
+    this.#cancelPendingWrite(getFieldKey(form, name, this.#config));
+    return resolveThen(saveField(form, name, this.#config), (saved) => {
+      if (saved) this.#broadcast(form, name);
+    });
+  }
+
+  /**
+   * @overload Removes all of the _expired_ form data in `localStorage` (for every form). When the `keep` option is
+   * provided, all of the data that belongs to the forms which aren't listed in `keep` is removed as well.
+   *
+   * @param {FormStoragePruneOptions} [options]
+   * @returns {void}
+   */
+
+  /**
+   * @overload Removes the data in `localStorage` that was stored for the provided `form`, but that doesn't belong to
+   * any of its fields.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void}
+   */
+
+  /**
+   * @param {HTMLFormElement | FormStoragePruneOptions} [target]
+   * @returns {void}
+   */
+  static prune(target) {
+    return /** @type {void} */ (pruneData(target, defaultConfig));
+  }
+
+  /**
+   * @overload Removes all of the _expired_ form data in the observer's storage backend (for every form). When the
+   * `keep` option is provided, all of the data that belongs to the forms which aren't listed in `keep` is removed as
+   * well. Runs asynchronously if the storage backend is asynchronous.
+   *
+   * @param {FormStoragePruneOptions} [options]
+   * @returns {void | Promise<void>}
+   */
+
+  /**
+   * @overload Removes the data in the observer's storage backend that was stored for the provided `form`, but that
+   * doesn't belong to any of its fields. Runs asynchronously if the storage backend is asynchronous.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void | Promise<void>}
+   */
+
+  /**
+   * @param {HTMLFormElement | FormStoragePruneOptions} [target]
+   * @returns {void | Promise<void>}
+   */
+  prune(target) {
+    return pruneData(target, this.#config);
+  }
+
+  /**
+   * Exports all of the data in `localStorage` related to the provided `form` (excluding `File`s).
+   *
+   * @param {HTMLFormElement} form
+   * @returns {FormStorageExport}
+   */
+  static export(form) {
+    assertElementIsForm(form);
+    return /** @type {FormStorageExport} */ (exportData(form, defaultConfig));
+  }
+
+  /**
+   * Exports all of the data in the observer's storage backend related to the provided `form` (excluding `File`s).
+   * Runs asynchronously if the storage backend is asynchronous or if the data needs to be decrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {FormStorageExport | Promise<FormStorageExport>}
+   */
+  export(form) {
+    assertElementIsForm(form);
+    return exportData(form, this.#config);
+  }
+
+  /**
+   * Validates the provided (exported) `data` and writes its values to `localStorage` for the provided `form`.
+   * Values that belong to unknown fields, file inputs, or fields whose values wouldn't be saved (for example,
+   * ignored or sensitive fields) are ignored.
+   *
+   * @param {HTMLFormElement} form
+   * @param {unknown} data
+   * @param {FormStorageImportOptions} [options]
+   * @returns {void}
+   */
+  static import(form, data, options) {
+    assertElementIsForm(form);
+    assertFormStorageExport(form, data);
+
+    importData(form, data, defaultConfig);
+    if (options?.apply) FormStorageObserver.load(form);
+  }
+
+  /**
+   * Validates the provided (exported) `data` and writes its values to the observer's storage backend for the
+   * provided `form`. Values that belong to unknown fields, file inputs, or fields whose values wouldn't be saved
+   * (for example, ignored or sensitive fields) are ignored. Runs asynchronously if the storage backend is
+   * asynchronous or if the data needs to be encrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @param {unknown} data
+   * @param {FormStorageImportOptions} [options]
+   * @returns {void | Promise<void>}
+   */
+  import(form, data, options) {
+    assertElementIsForm(form);
+    assertFormStorageExport(form, data);
+
+    // The imported values would be overwritten by any pending writes
+    Object.keys(data.values).forEach((name) => this.#cancelPendingWrite(getFieldKey(form, name, this.#config)));
+    return resolveThen(importData(form, data, this.#config), (importedNames) => {
+      importedNames.forEach((name) => this.#broadcast(form, name));
+      if (options?.apply) return resolveThen(this.load(form), () => undefined);
+    });
+  }
+
+  /**
+   * Configures the `serialize` and `deserialize` hooks that are used for the field(s) with the provided `name`.
+   * These hooks take precedence over the ones that were provided to the constructor.
+   *
+   * @param {string} name The `name` of the form field
+   * @param {StorageTransforms} transforms
+   * @returns {void}
+   *
+   * @example
+   * // Normalize the whitespace of stored values, and re-map a legacy value when it is loaded
+   * observer.configure("color", {
+   *   serialize: (field) => field.value.trim(),
+   *   deserialize: (stored) => (stored === "grey" ? "gray" : stored),
+   * });
+   */
+  configure(name, transforms) {
+    /** @type {Map<string, StorageTransforms>} */ (this.#config.transforms).set(name, transforms);
+  }
+
+  /**
+   * Saves a copy of the provided `form`'s current data under the provided `snapshotName` (replacing any snapshot
+   * that already has that name). Snapshots are stored separately from the form's regular data. Runs asynchronously
+   * if the storage backend is asynchronous or if the data needs to be encrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} snapshotName
+   * @returns {void | Promise<void>}
+   */
+  saveSnapshot(form, snapshotName) {
+    assertElementIsForm(form);
+    const config = getSnapshotConfig(this.#config, snapshotName);
+
+    const saving = forEachFieldName(form, (name) => resolveThen(saveField(form, name, config), () => undefined));
+    return resolveThen(saving, () => {
+      const indexKey = getSnapshotIndexKey(form, this.#config);
+      return updateRecord(indexKey, (index) => ({ ...index, [snapshotName]: Date.now() }), this.#config);
+    });
+  }
+
+  /**
+   * Lists the snapshots that were saved for the provided `form` (most recent first). Runs asynchronously if the
+   * storage backend is asynchronous.
+   *
+   * @param {HTMLFormElement} form
+   * @returns {FormStorageSnapshot[] | Promise<FormStorageSnapshot[]>}
+   */
+  listSnapshots(form) {
+    assertElementIsForm(form);
+
+    return resolveThen(this.#config.storage.get(getSnapshotIndexKey(form, this.#config)), (indexString) => {
+      const index = /** @type {Record<string, number>} */ (parseRecord(indexString));
+      return Object.entries(index)
+        .map(([name, savedAt]) => ({ name, savedAt }))
+        .sort((a, b) => b.savedAt - a.savedAt);
+    });
+  }
+
+  /**
+   * Loads the snapshot that has the provided `snapshotName` into the provided `form`. (The form's regular data is
+   * left alone.) Runs asynchronously if the storage backend is asynchronous or if the data needs to be decrypted.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} snapshotName
+   * @returns {FormStorageLoadReport | Promise<FormStorageLoadReport>}
+   */
+  loadSnapshot(form, snapshotName) {
+    assertElementIsForm(form);
+    return this.#load(form, undefined, getSnapshotConfig(this.#config, snapshotName));
+  }
+
+  /**
+   * Deletes the snapshot that has the provided `snapshotName` from the provided `form`'s snapshots (including the
+   * values of fields that no longer belong to the `form`). Runs asynchronously if the storage backend is asynchronous.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} snapshotName
+   * @returns {void | Promise<void>}
+   */
+  deleteSnapshot(form, snapshotName) {
+    assertElementIsForm(form);
+    const removal = clearSnapshotData(form, snapshotName, this.#config);
+
+    return resolveThen(removal, () => {
+      const indexKey = getSnapshotIndexKey(form, this.#config);
+      return updateRecord(
+        indexKey,
+        (index) => {
+          if (!Object.prototype.hasOwnProperty.call(index, snapshotName)) return;
+          return Object.fromEntries(Object.entries(index).filter(([name]) => name !== snapshotName));
+        },
+        this.#config,
+      );
+    });
+  }
+
+  /**
+   * Immediately saves all of the field values whose writes are still pending (due to the `debounce` or `throttle`
+   * options). Pending writes are also saved automatically when the page is hidden or frozen, and when their form is
+   * unobserved. Runs asynchronously if any of the writes are asynchronous.
+   *
+   * @returns {void | Promise<void>}
+   */
+  flush() {
+    return this.#flushPendingWrites();
+  }
+
+  /**
+   * Immediately saves the pending writes of the provided `form` (or of every form if no `form` is provided)
+   *
+   * @param {HTMLFormElement} [form]
+   * @returns {void | Promise<void>}
+   */
+  #flushPendingWrites(form) {
+    /** @type {Promise<void>[]} */
+    const pendingOperations = [];
+
+    this.#pendingWrites.forEach((pendingWrite, key) => {
+      if (form && pendingWrite.form !== form) return;
+      this.#cancelPendingWrite(key);
+      const result = pendingWrite.write?.();
+      if (result instanceof Promise) pendingOperations.push(result);
+    });
+
+    return settleOperations(pendingOperations);
+  }
+
+  /**
+   * Automatically loads the provided `form`'s data. When the `shouldRestore` option is provided, the stored data is
+   * only loaded if `shouldRestore` approves it. (Otherwise, the stored data is cleared.)
+   *
+   * @param {HTMLFormElement} form
+   * @returns {unknown} A `Promise` if the `form`'s data is restored asynchronously
+   */
+  #restore(form) {
+    const shouldRestore = this.#shouldRestore;
+    if (!shouldRestore) return this.load(form);
+
+    return resolveThen(readSnapshot(form, this.#config), (snapshot) => {
+      if (!Object.keys(snapshot).length) return; // There is nothing to restore
+      return resolveThen(shouldRestore(form, snapshot), (restore) => (restore ? this.load(form) : this.clear(form)));
+    });
+  }
+
+  /**
+   * Saves the provided `value` for the field with the provided `name`, respecting the observer's `debounce` and
+   * `throttle` options.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @param {unknown} value
+   * @param {string[]} [searchParamValues] The values to mirror into the URL's search params after the `value` is
+   * stored (if the `searchParams` option is enabled)
+   * @returns {void}
+   */
+  #save(form, name, value, searchParamValues) {
+    const key = getFieldKey(form, name, this.#config);
+    const write = () => {
+      const storing = this.#attempt(form, name, () =>
+        resolveThen(storeValue(form, name, value, this.#config), () => {
+          if (searchParamValues) this.#writeSearchParams(name, searchParamValues);
+          return true;
+        }),
+      );
+      return resolveThen(storing, (stored) => {
+        if (stored) this.#broadcast(form, name);
+      });
+    };
+    if (!this.#writeTiming) {
+      write();
+      return;
+    }
+
+    const { type, delay } = this.#writeTiming;
+    const pendingWrite = this.#pendingWrites.get(key);
+
+    // Throttled fields only save their _latest_ value at the end of the current interval
+    if (type === "throttle" && pendingWrite) {
+      pendingWrite.write = write;
+      return;
+    }
+
+    if (pendingWrite) clearTimeout(pendingWrite.timeout);
+    if (!this.#pendingWrites.size) {
+      document.addEventListener("visibilitychange", this.#flushOnHide);
+      document.addEventListener("freeze", this.#flushOnHide);
+      window.addEventListener("pagehide", this.#flushOnHide);
+    }
+
+    /** @returns {ReturnType<typeof setTimeout>} */
+    const scheduleWrite = () => {
+      return setTimeout(() => {
+        const latestWrite = /** @type {PendingWrite} */ (this.#pendingWrites.get(key)).write;
+
+        // A throttled field's trailing write starts a new interval (so that the next save has to wait for it)
+        if (type === "throttle" && latestWrite)
+          this.#pendingWrites.set(key, { form, write: undefined, timeout: scheduleWrite() });
+        else this.#cancelPendingWrite(key);
+        latestWrite?.();
+      }, delay);
+    };
+
+    // Throttled fields are saved immediately when a new interval starts
+    if (type === "throttle") write();
+    this.#pendingWrites.set(key, { form, write: type === "debounce" ? write : undefined, timeout: scheduleWrite() });
+  }
+
+  /**
+   * Runs the provided `operation` for the field with the provided `name`, passing any error that it throws (or
+   * rejects with) to the `onError` option. Without an `onError` option, errors are left alone.
+   *
+   * @template T
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @param {() => T | Promise<T>} operation
+   * @returns {T | void | Promise<T | void>}
+   */
+  #attempt(form, name, operation) {
+    const { onError } = this.#config;
+    if (!onError) return operation();
+    return attempt(operation, (error) => onError(error, form, name));
+  }
+
+  /**
+   * Discards the pending write for the provided storage `key` (if one exists)
+   *
+   * @param {string} key
+   * @returns {void}
+   */
+  #cancelPendingWrite(key) {
+    const pendingWrite = this.#pendingWrites.get(key);
+    if (!pendingWrite) return;
+
+    clearTimeout(pendingWrite.timeout);
+    this.#pendingWrites.delete(key);
+    if (this.#pendingWrites.size) return;
+
+    document.removeEventListener("visibilitychange", this.#flushOnHide);
+    document.removeEventListener("freeze", this.#flushOnHide);
+    window.removeEventListener("pagehide", this.#flushOnHide);
+  }
+
+  /**
+   * Starts mirroring the provided `form`'s values into the URL (loading the values that are already in the URL
+   * after the `form`'s `loading` is complete).
+   *
+   * @param {HTMLFormElement} form
+   * @param {unknown} loading The automated loading of the `form`'s stored data (if any)
+   * @returns {void}
+   */
+  #startMirroring(form, loading) {
+    this.#mirroredForms.add(form);
+    if (this.#mirroredForms.size === 1) window.addEventListener("popstate", this.#loadSearchParamsOnPopState);
+    resolveThen(loading, () => this.#loadSearchParams(form, true));
+  }
+
+  /**
+   * Stops mirroring the provided `form`'s values into the URL
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void}
+   */
+  #stopMirroring(form) {
+    this.#mirroredForms.delete(form);
+    if (!this.#mirroredForms.size) window.removeEventListener("popstate", this.#loadSearchParamsOnPopState);
+  }
+
+  /**
+   * Mirrors the provided `values` of the field with the provided `name` into the URL's search params (replacing the
+   * field's previous values)
+   *
+   * @param {string} name
+   * @param {string[]} values
+   * @returns {void}
+   */
+  #writeSearchParams(name, values) {
+    const url = new URL(window.location.href);
+
+    url.searchParams.delete(name);
+    if (values.some((value) => value !== "")) values.forEach((value) => url.searchParams.append(name, value));
+    if (url.href === window.location.href) return;
+
+    if (this.#searchParams === "push") window.history.pushState(window.history.state, "", url);
+    else window.history.replaceState(window.history.state, "", url);
+  }
+
+  /**
+   * Loads the values in the URL's search params into the provided `form`, dispatching the configured
+   * `restoreEvents` afterwards. Fields whose values can't be stored are ignored.
+   *
+   * @param {HTMLFormElement} form
+   * @param {boolean} presentOnly Only loads the fields that are present in the search params when `true`. Otherwise,
+   * the fields that are missing from the search params are emptied.
+   * @returns {void}
+   */
+  #loadSearchParams(form, presentOnly) {
+    const params = new URLSearchParams(window.location.search);
+
+    /** @type {string[]} */
+    const restoredNames = [];
+
+    forEachFieldName(form, (name) => {
+      if (presentOnly && !params.has(name)) return;
+      if (loadSearchParamValues(form, name, params.getAll(name), this.#config)) restoredNames.push(name);
+    });
+
+    this.#dispatchRestoreEvents(form, restoredNames);
+  }
+
+  /**
+   * Starts applying the values that other browsing contexts save for the provided `form`
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void}
+   */
+  #startSyncing(form) {
+    this.#syncedForms.add(form);
+    if (this.#channel) return;
+
+    this.#channel = new BroadcastChannel(syncChannelName);
+    this.#channel.onmessage = (event) => this.#receive(/** @type {SyncMessage} */ (event.data));
+  }
+
+  /**
+   * Stops applying the values that other browsing contexts save for the provided `form`. (The observer's
+   * `BroadcastChannel` is closed when no synchronized forms remain.)
+   *
+   * @param {HTMLFormElement} form
+   * @returns {void}
+   */
+  #stopSyncing(form) {
+    this.#syncedForms.delete(form);
+    if (this.#syncedForms.size) return;
+
+    /** @type {BroadcastChannel} */ (this.#channel).close();
+    this.#channel = undefined;
+  }
+
+  /**
+   * Notifies other browsing contexts that the value of the field with the provided `name` was saved
+   *
+   * @param {HTMLFormElement} form
+   * @param {string} name
+   * @returns {void}
+   */
+  #broadcast(form, name) {
+    if (!this.#channel) return;
+
+    /** @type {SyncMessage} */
+    const message = { form: form.name, name };
+    this.#channel.postMessage(message);
+  }
+
+  /**
+   * Loads a value that another browsing context saved into every matching synchronized form
+   *
+   * @param {SyncMessage} message
+   * @returns {void}
+   */
+  #receive(message) {
+    this.#syncedForms.forEach((form) => {
+      if (form.name !== message.form) return;
+      if (this.#syncConflicts === "preserve-focused" && isFocused(form, message.name)) return;
+      resolveThen(loadField(form, message.name, this.#config), (status) => {
+        if (status === "restored" || status === "mismatched") this.#dispatchRestoreEvents(form, [message.name]);
+      });
+    });
+  }
+
+  /**
+   * Dispatches the configured `restoreEvents` for the fields with the provided `names`, followed by a summary
+   * `formstorage:load` event on the `form`.
+   *
+   * @param {HTMLFormElement} form
+   * @param {string[]} names The names of the fields whose values were restored
+   * @returns {void}
+   */
+  #dispatchRestoreEvents(form, names) {
+    if (!this.#restoreEvents) return;
+    this.#restoring = true;
+
+    try {
+      names.forEach((name) => {
+        const field = /** @type {import("./types.d.ts").FormField | RadioNodeList} */ (form.elements.namedItem(name));
+
+        getRestoredFields(field).forEach((target) => {
+          if (this.#restoreEvents === "custom") {
+            target.dispatchEvent(new CustomEvent("formstorage:restore", { bubbles: true }));
+            return;
+          }
+
+          target.dispatchEvent(new Event("input", { bubbles: true }));
+          target.dispatchEvent(new Event("change", { bubbles: true }));
+        });
+      });
+
+      form.dispatchEvent(new CustomEvent("formstorage:load", { bubbles: true, detail: { names } }));
+    } finally {
+      this.#restoring = false;
+    }
+  }
+}
+
+export default FormStorageObserver;
+
+/* -------------------- Utility Functions -------------------- */
+/**
+ * Retrieves the value that should be stored for the provided `field`. Returns `undefined` if the `field`'s value
+ * should not be stored.
+ *
+ * @param {import("./types.d.ts").FormField} field
+ * @param {Readonly<StorageConfig>} config
+ * @returns {StoredValue | undefined}
+ */
+function getStorableValue(field, config) {
+  if (!field.name) return; // We only store "known" (named) form values
+
+  // The following elements are not relevant for form data storage and are therefore ignored
+  if (field instanceof HTMLFieldSetElement) return; // Isn't really supposed to have a value
+  if (field instanceof HTMLOutputElement) return; // Value is derived from its inputs
+  if (field instanceof HTMLObjectElement) return; // Doesn't seem like a relevant element for form data
+  if (!isPersistable(field, config)) return;
+
+  // Custom Elements with Structured State
+  if (hasStorageState(field)) return { value: field.formStorageState };
+
+  // Multiselects
+  if (field instanceof HTMLSelectElement && field.multiple) {
+    /** @type {string[]} */
+    const values = [];
+
+    for (let i = 0; i < field.selectedOptions.length; i++) values.push(field.selectedOptions[i].value);
+    return { value: values };
+  }
+
+  // Unique Input Scenarios
+  if (field instanceof HTMLInputElement) {
+    // Checkboxes
+    if (field.type === "checkbox") return { value: field.checked };
+
+    // Sensitive or Unsupported Inputs
+    if (field.type === "password" || field.type === "hidden" || field.type === "file") return;
+  }
+
+  // Other Form Fields
+  return { value: field.value };
+}
+
+/**
+ * Retrieves the value that should be stored for the provided `group` of fields that share the same `name`. Returns
+ * `undefined` if the `group`'s value should not be stored.
+ *
+ * Radio button groups store the value of their checked radio button. Other groups (such as checkbox groups or
+ * repeated textboxes) store an array of their members' values, in order. (Members whose values can't be stored
+ * are represented by `null`.)
+ *
+ * @param {RadioNodeList} group
+ * @param {Readonly<StorageConfig>} config
+ * @returns {StoredValue | undefined}
+ */
+function getGroupStorableValue(group, config) {
+  const fields = /** @type {import("./types.d.ts").FormField[]} */ (Array.from(group));
+
+  // Radio buttons belonging to the same group are expected to share the same rules
+  if (isRadiogroup(group)) return getStorableValue(fields[0], config) ? { value: group.value } : undefined;
+
+  const storableValues = fields.map((field) => getStorableValue(field, config));
+  if (!storableValues.some(Boolean)) return;
+  return { value: storableValues.map((storableValue) => (storableValue ? storableValue.value : null)) };
+}
+
+/**
+ * @param {RadioNodeList} group
+ * @returns {boolean} `true` if every field in the provided `group` is a radio button
+ */
+function isRadiogroup(group) {
+  return Array.from(group).every((field) => field instanceof HTMLInputElement && field.type === "radio");
+}
+
+/**
+ * Loads the stored data for the field that has the provided `name` and belongs to the provided `form`.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {FieldLoadStatus | undefined | Promise<FieldLoadStatus | undefined>} The outcome of loading the field's
+ * stored data, or `undefined` if no data was stored for the field
+ */
+function loadField(form, name, config) {
+  const field = getNamedField(form, name);
+  if (!field) return "missing"; // No field to load data into
+
+  /* ---------- Data Loading ---------- */
+  // The following elements do not have their "values" stored and are therefore ignored
+  if (field instanceof HTMLFieldSetElement) return skipField(form, name, config);
+  if (field instanceof HTMLOutputElement) return skipField(form, name, config);
+  if (field instanceof HTMLObjectElement) return skipField(form, name, config);
+  if (field instanceof HTMLInputElement) {
+    if (field.type === "password" || field.type === "hidden") return skipField(form, name, config);
+    if (field.type === "file" && !config.files) return; // `File`s are never written to the storage backend
+  }
+
+  // Groups of (non-radio) fields that share the same `name` restore each of their members separately
+  if (field instanceof RadioNodeList && !isRadiogroup(field)) {
+    return resolveThen(readEntry(form, name, config), (entry) => {
+      if (entry === undefined) return; // No value was stored for this field
+
+      return resolveThen(toStoredValue(form, name, entry, config), (storedValue) => {
+        if (!storedValue) return "skipped";
+
+        const storedValues = deserializeValue(field, name, storedValue.value, config);
+        if (!Array.isArray(storedValues)) return "mismatched"; // The value was stored before the `name` was shared
+        if (!applyStoredGroupValues(field, storedValues, config)) return "skipped";
+
+        // Members whose values can't be stored don't need to match (because they were left alone)
+        const members = /** @type {HTMLInputElement[]} */ (Array.from(field));
+        const accepted = members.every((member, i) => {
+          if (storedValues[i] == null || !getStorableValue(member, config)) return true;
+          return matchesStoredValue(member, storedValues[i]);
+        });
+
+        return accepted && storedValues.length === members.length ? "restored" : "mismatched";
+      });
+    });
+  }
+
+  // Radio buttons belonging to the same group are expected to share the same rules
+  if (!isPersistable(field instanceof RadioNodeList ? /** @type {HTMLInputElement} */ (field[0]) : field, config)) {
+    return skipField(form, name, config);
+  }
+
+  if (field instanceof HTMLInputElement && field.type === "file") {
+    return /** @type {FileStore} */ (config.files).get(getFieldKey(form, name, config)).then((files) => {
+      if (!files) return;
+
+      applyStoredFiles(field, files);
+      return "restored";
+    });
+  }
+
+  return resolveThen(readEntry(form, name, config), (entry) => {
+    if (entry === undefined) return; // No value was stored for this field
+
+    return resolveThen(toStoredValue(form, name, entry, config), (storedValue) => {
+      if (!storedValue) return "skipped";
+
+      const value = deserializeValue(field, name, storedValue.value, config);
+      applyStoredValue(field, value);
+      return matchesStoredValue(field, value) ? "restored" : "mismatched";
+    });
+  });
+}
+
+/**
+ * Reports an ignored field as `skipped` if an entry was stored for it anyway (for example, by an older version of
+ * the application that didn't ignore the field).
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {"skipped" | undefined | Promise<"skipped" | undefined>}
+ */
+function skipField(form, name, config) {
+  return resolveThen(readEntry(form, name, config), (entry) => (entry === undefined ? undefined : "skipped"));
+}
+
+/**
+ * Determines whether or not the provided `field` accepted the `storedValue` that was applied to it. (For example,
+ * a `<select>` rejects values that aren't one of its `option`s.) Structured state is always considered accepted.
+ *
+ * @param {StorableField} field
+ * @param {unknown} storedValue
+ * @returns {boolean}
+ */
+function matchesStoredValue(field, storedValue) {
+  if (hasStorageState(field) || "formStateRestoreCallback" in field) return true;
+  if (field instanceof HTMLInputElement && field.type === "checkbox") return typeof storedValue === "boolean";
+  if (field instanceof HTMLSelectElement && field.multiple) {
+    const selectedValues = Array.from(field.selectedOptions, (option) => option.value);
+    if (!Array.isArray(storedValue) || storedValue.length !== selectedValues.length) return false;
+    return storedValue.every((value) => selectedValues.includes(value));
+  }
+
+  return field.value === storedValue;
+}
+
+/**
+ * Converts the provided storable `value` of a `field` (or group of fields) into the values that the `field` would
+ * contribute to a (`GET`) form submission. Structured state is never mirrored into the URL.
+ *
+ * @param {import("./types.d.ts").FormField | RadioNodeList} field
+ * @param {unknown} value
+ * @returns {string[]}
+ */
+function toSearchParamValues(field, value) {
+  if (field instanceof RadioNodeList) {
+    const fields = /** @type {import("./types.d.ts").FormField[]} */ (Array.from(field));
+    return fields.flatMap((member, i) => toSearchParamValues(member, /** @type {unknown[]} */ (value)[i]));
+  }
+
+  if (hasStorageState(field)) return [];
+  if (typeof value === "boolean") return value ? [/** @type {HTMLInputElement} */ (field).value] : []; // Checkboxes
+  if (Array.isArray(value)) return /** @type {string[]} */ (value); // Multiselects
+  return typeof value === "string" ? [value] : [];
+}
+
+/**
+ * Loads the provided search param `values` into the field that has the provided `name` and belongs to the provided
+ * `form`. The `values` are decoded just like they would be during a (`GET`) form submission. Fields whose values
+ * can't be stored (and fields with structured state) are ignored.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {string[]} values
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean} `true` if the `values` were applied to the field
+ */
+function loadSearchParamValues(form, name, values, config) {
+  const field = /** @type {StorableField} */ (getNamedField(form, name));
+  const isCheckable = (/** @type {Node} */ f) => f instanceof HTMLInputElement && f.type === "checkbox";
+
+  // Groups of (non-radio) fields that share the same `name`
+  if (field instanceof RadioNodeList && !isRadiogroup(field)) {
+    const remainingValues = values.filter((v) => !Array.from(field).some((f) => isCheckable(f) && f.value === v));
+    const fields = /** @type {HTMLInputElement[]} */ (Array.from(field));
+    const storedValues = fields.map((f) =>
+      isCheckable(f) ? values.includes(f.value) : (remainingValues.shift() ?? ""),
+    );
+    return applyStoredGroupValues(field, storedValues, config);
+  }
+
+  // Radio buttons belonging to the same group are expected to share the same rules
+  const storableField = /** @type {import("./types.d.ts").FormField} */ (
+    field instanceof RadioNodeList ? field[0] : field
+  );
+  if (!getStorableValue(storableField, config) || hasStorageState(field)) return false;
+
+  /** @type {string | string[] | boolean} */
+  let storedValue = values[0] ?? "";
+  if (field instanceof HTMLInputElement && field.type === "checkbox") storedValue = values.includes(field.value);
+  else if (field instanceof HTMLSelectElement && field.multiple) storedValue = values;
+
+  applyStoredValue(field, storedValue);
+  return true;
+}
+
+/**
+ * Saves the current value of the field that has the provided `name` and belongs to the provided `form`.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean | Promise<boolean>} `true` if the field's value was saved. (Fields whose values are not
+ * stored are ignored.)
+ */
+function saveField(form, name, config) {
+  const field = getNamedField(form, name);
+  if (!field) return false; // No field to save data from
+  if (field instanceof HTMLInputElement && field.type === "file") return saveFiles(form, field, config);
+
+  /** @type {StoredValue | undefined} */
+  let storableValue;
+
+  if (field instanceof RadioNodeList) storableValue = getGroupStorableValue(field, config);
+  else storableValue = getStorableValue(field, config);
+
+  if (!storableValue) return false;
+  return resolveThen(storeValue(form, name, serializeValue(form, name, storableValue, config), config), () => true);
+}
+
+/**
+ * Saves the `File`s currently selected in the provided file `input` (if the configuration allows it). When the
+ * selection is empty or exceeds the configured size limits, any previously stored files are removed instead.
+ *
+ * @param {HTMLFormElement} form
+ * @param {HTMLInputElement} input
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean | Promise<boolean>} `true` if the `input`'s files were saved
+ */
+function saveFiles(form, input, config) {
+  const fileStore = config.files;
+  if (!fileStore || !input.name || !isPersistable(input, config)) return false;
+
+  const key = getFieldKey(form, input.name, config);
+  const files = Array.from(/** @type {FileList} */ (input.files));
+  const totalSize = files.reduce((size, file) => size + file.size, 0);
+
+  if (!files.length || totalSize > fileStore.maxTotalSize) return fileStore.remove(key).then(() => false);
+  if (files.some((file) => file.size > fileStore.maxFileSize)) return fileStore.remove(key).then(() => false);
+  return fileStore.set(key, files).then(() => true);
+}
+
+/**
+ * Returns the value that should be stored for the field that has the provided `name`, applying the field's
+ * `serialize` hook (if one was configured) instead of using the default `storableValue`.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {StoredValue} storableValue
+ * @param {Readonly<StorageConfig>} config
+ * @returns {unknown}
+ */
+function serializeValue(form, name, storableValue, config) {
+  const serialize = config.transforms?.get(name)?.serialize ?? config.serialize;
+  if (!serialize) return storableValue.value;
+  return serialize(/** @type {StorableField} */ (form.elements.namedItem(name)));
+}
+
+/**
+ * Returns the value that should be applied to the provided `field` (whose `name` is provided), applying the field's
+ * `deserialize` hook (if one was configured) to the `storedValue`.
+ *
+ * @param {StorableField} field
+ * @param {string} name
+ * @param {unknown} storedValue
+ * @param {Readonly<StorageConfig>} config
+ * @returns {unknown}
+ */
+function deserializeValue(field, name, storedValue, config) {
+  const deserialize = config.transforms?.get(name)?.deserialize ?? config.deserialize;
+  return deserialize ? deserialize(storedValue, field) : storedValue;
+}
+
+/**
+ * Retrieves the field (or radio button group) that has the provided `name` and belongs to the provided `form`.
+ * Returns `null` if no such field exists (or if `name` is empty).
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @returns {import("./types.d.ts").FormField | RadioNodeList | null}
+ */
+function getNamedField(form, name) {
+  if (name === "") return null; // Empty strings represent unnamed fields and are not allowed
+
+  const field = /** @type {import("./types.d.ts").FormField | RadioNodeList | null} */ (form.elements.namedItem(name));
+  if (!field) return null;
+
+  // Require that the provided `name` matches the name of the form field
+  if (!(field instanceof RadioNodeList) && field.name !== name) {
+    const err = `Expected to find a field with name "${name}", but instead found a field with name "${field.name}".`;
+    const hint = "Did you accidentally provide your field's `id` instead of your field's `name`?";
+    throw new Error(`${err} ${hint}`);
+  }
+
+  return field;
+}
+
+/**
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @returns {boolean} `true` if the field that has the provided `name` is a file input
+ */
+function isFileInput(form, name) {
+  const field = form.elements.namedItem(name);
+  return field instanceof HTMLInputElement && field.type === "file";
+}
+
+/**
+ * @param {import("./types.d.ts").FormField | RadioNodeList} field
+ * @returns {field is import("./types.d.ts").FormField & Required<Pick<StatefulFormField, "formStorageState">>} `true`
+ * if the provided `field` exposes its state through the `formStorageState` property
+ */
+function hasStorageState(field) {
+  return !(field instanceof RadioNodeList) && "formStorageState" in field;
+}
+
+/**
+ * Determines whether or not the provided `field`'s data may be saved and loaded. Fields that have (or belong to an
+ * element that has) the `data-fso-ignore` attribute are never persisted. Neither are fields that have sensitive
+ * `autocomplete` tokens. All other fields must satisfy the configured `include` and `exclude` rules.
+ *
+ * @param {import("./types.d.ts").FormField} field
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean}
+ */
+function isPersistable(field, config) {
+  if (field.closest("[data-fso-ignore]")) return false;
+
+  const autocompleteTokens = field.getAttribute("autocomplete")?.toLowerCase().split(/\s+/) ?? [];
+  if (autocompleteTokens.some((token) => sensitiveAutocompleteTokens.has(token))) return false;
+
+  if (config.exclude?.some((rule) => matchesFieldRule(field, rule))) return false;
+  return !config.include || config.include.some((rule) => matchesFieldRule(field, rule));
+}
+
+/**
+ * @param {import("./types.d.ts").FormField} field
+ * @param {StorageFieldRule} rule
+ * @returns {boolean} `true` if the provided `field` matches the provided `rule`
+ */
+function matchesFieldRule(field, rule) {
+  if (typeof rule === "string") return field.name === rule;
+  if (typeof rule === "function") return rule(field);
+  return field.matches(rule.selector);
+}
+
+/**
+ * Reads the value that was stored for the field with the provided `name`. Expired values are removed, encrypted
+ * values are decrypted, and outdated values are migrated. Returns `undefined` if no usable value exists.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {StoredValue | undefined | Promise<StoredValue | undefined>}
+ */
+function readStoredValue(form, name, config) {
+  return resolveThen(readEntry(form, name, config), (entry) => toStoredValue(form, name, entry, config));
+}
+
+/**
+ * Converts the `entry` that was stored for the field with the provided `name` into a usable value. Expired entries
+ * are removed, encrypted entries are decrypted, and outdated entries are migrated. Returns `undefined` if the
+ * `entry` isn't usable.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {unknown} entry
+ * @param {Readonly<StorageConfig>} config
+ * @returns {StoredValue | undefined | Promise<StoredValue | undefined>}
+ */
+function toStoredValue(form, name, entry, config) {
+  if (entry === undefined) return; // No value was stored for this field
+  if (entry === corruptEntry) return;
+
+  const envelope = toEnvelope(entry);
+  if (isExpired(envelope)) return resolveThen(removeEntry(form, name, config), () => undefined);
+  if (!envelope.encrypted) return migrateValue(form, name, envelope, config);
+
+  if (!config.encryptionKey) return; // Encrypted values cannot be read without a key
+  return decryptValue(envelope.encrypted, config.encryptionKey).then(
+    (value) => migrateValue(form, name, { ...envelope, value }, config),
+    (error) => {
+      // The entry was encrypted with a different key (or tampered with)
+      config.onError?.(error, form, name);
+      return undefined;
+    },
+  );
+}
+
+/**
+ * Reads all of the usable values that were stored for the provided `form`'s fields (including their `File`s if the
+ * configuration allows it), keyed by field `name`.
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {Record<string, unknown> | Promise<Record<string, unknown>>}
+ */
+function readSnapshot(form, config) {
+  /** @type {Record<string, unknown>} */
+  const snapshot = {};
+
+  const reading = forEachFieldName(form, (name) => {
+    const field = getNamedField(form, name);
+    if (config.files && field instanceof HTMLInputElement && field.type === "file") {
+      return config.files.get(getFieldKey(form, name, config)).then((files) => {
+        if (files) snapshot[name] = files;
+      });
+    }
+
+    return resolveThen(readStoredValue(form, name, config), (storedValue) => {
+      if (storedValue) snapshot[name] = storedValue.value;
+    });
+  });
+
+  return resolveThen(reading, () => snapshot);
+}
+
+/**
+ * Exports all of the usable values that were stored for the provided `form`'s fields (excluding `File`s)
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {FormStorageExport | Promise<FormStorageExport>}
+ */
+function exportData(form, config) {
+  return resolveThen(readSnapshot(form, { ...config, files: undefined }), (values) => {
+    return { fso: exportVersion, form: form.name, version: config.version, values };
+  });
+}
+
+/**
+ * Writes the values in the provided `data` to storage for the provided `form`. The values keep the schema `version`
+ * that they were exported with, so they are migrated (if necessary) when they're loaded. Values are only imported for
+ * the fields whose own values would be stored.
+ *
+ * @param {HTMLFormElement} form
+ * @param {FormStorageExport} data
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string[] | Promise<string[]>} The names of the fields whose values were imported
+ */
+function importData(form, data, config) {
+  const versionedConfig = { ...config, version: data.version };
+
+  /** @type {string[]} */
+  const importedNames = [];
+
+  /** @type {Promise<void>[]} */
+  const pendingOperations = [];
+
+  Object.entries(data.values).forEach(([name, value]) => {
+    // Unknown names are ignored (including names that only match an element's `id`)
+    const field = /** @type {import("./types.d.ts").FormField | RadioNodeList | null} */ (
+      form.elements.namedItem(name)
+    );
+    if (!field || (!(field instanceof RadioNodeList) && field.name !== name)) return;
+
+    // Imports follow the same rules as saves (so that sensitive or ignored fields are never written to storage)
+    const storableValue =
+      field instanceof RadioNodeList ? getGroupStorableValue(field, config) : getStorableValue(field, config);
+    if (!storableValue) return;
+
+    const storing = storeValue(form, name, value, versionedConfig);
+    if (storing instanceof Promise) pendingOperations.push(storing);
+    importedNames.push(name);
+  });
+
+  return resolveThen(settleOperations(pendingOperations), () => importedNames);
+}
+
+/**
+ * Asserts that the provided `data` is a {@link FormStorageExport} that was exported from a form with the same `name`
+ * as the provided `form`.
+ *
+ * @param {HTMLFormElement} form
+ * @param {unknown} data
+ * @returns {asserts data is FormStorageExport}
+ */
+function assertFormStorageExport(form, data) {
+  const exported = /** @type {Partial<FormStorageExport> | null} */ (data);
+  const isObject = (/** @type {unknown} */ value) =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (!isObject(exported) || exported?.fso !== exportVersion || !isObject(exported.values)) {
+    throw new TypeError("Expected data that was created by `FormStorageObserver.export()`.");
+  }
+
+  if (exported.version != null && typeof exported.version !== "number") {
+    throw new TypeError(`Expected the exported data's version to be a number, but received "${exported.version}".`);
+  }
+
+  if (exported.form !== form.name) {
+    throw new Error(
+      `Expected data exported from a form named "${form.name}", but the data belongs to "${exported.form}".`,
+    );
+  }
+}
+
+/**
+ * Upgrades the `envelope`'s value to the configured `version` (if necessary). Values that are successfully migrated
+ * are written back to storage. Values that cannot be migrated are discarded (i.e., removed from storage).
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {StorageEnvelope} envelope
+ * @param {Readonly<StorageConfig>} config
+ * @returns {StoredValue | undefined | Promise<StoredValue | undefined>}
+ */
+function migrateValue(form, name, envelope, config) {
+  const storedVersion = envelope.version ?? 0;
+  if (config.version == null || storedVersion === config.version) return { value: envelope.value };
+
+  let { value } = envelope;
+  let version = storedVersion;
+
+  for (; version < config.version; version++) {
+    const migrate = config.migrations?.[version];
+    if (!migrate) break;
+    value = migrate(value, name);
+  }
+
+  // Values that are missing a migration (or that belong to a _newer_ version) cannot be used
+  if (version !== config.version) {
+    config.onDiscard?.(form, name, storedVersion);
+    return resolveThen(removeEntry(form, name, config), () => undefined);
+  }
+
+  // Migrations only change a value's shape. They don't extend its lifetime.
+  return resolveThen(storeValue(form, name, value, config, envelope.expires), () => ({ value }));
+}
+
+/**
+ * Applies the values that were retrieved from storage to the members of the provided `group` (by position).
+ * Members whose values can't be stored are left alone.
+ *
+ * @param {RadioNodeList} group
+ * @param {unknown[]} storedValues
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean} `true` if a stored value was applied to any of the `group`'s members
+ */
+function applyStoredGroupValues(group, storedValues, config) {
+  let applied = false;
+
+  for (let i = 0; i < group.length && i < storedValues.length; i++) {
+    const field = /** @type {import("./types.d.ts").FormField} */ (group[i]);
+    if (storedValues[i] == null || !getStorableValue(field, config)) continue;
+
+    applyStoredValue(/** @type {HTMLInputElement} */ (field), storedValues[i]);
+    applied = true;
+  }
+
+  return applied;
+}
+
+/**
+ * Applies a value that was retrieved from storage to the provided `field`
+ *
+ * @param {StorableField} field
+ * @param {unknown} storedValue
+ * @returns {void}
+ */
+/* eslint-disable no-param-reassign -- This function is responsible for updating the `field` */
+function applyStoredValue(field, storedValue) {
+  // Custom Elements with Structured State
+  if (hasStorageState(field)) field.formStorageState = storedValue;
+  else if ("formStateRestoreCallback" in field && typeof field.formStateRestoreCallback === "function") {
+    field.formStateRestoreCallback(storedValue, "restore");
+  }
+  // Checkboxes
+  else if (field instanceof HTMLInputElement && field.type === "checkbox") {
+    field.checked = /** @type {boolean} */ (storedValue);
+  }
+  // Multi-Selects
+  else if (field instanceof HTMLSelectElement && field.multiple && Array.isArray(storedValue)) {
+    const remainingValues = [...storedValue]; // The `storedValue` itself is left intact for the caller
+
+    // Loop over the `options` as long as there are stored values to read
+    /** @type {number | undefined} */
+    let brokenAt;
+
+    for (let i = 0; i < field.options.length; i++) {
+      if (!remainingValues.length) {
+        brokenAt = i;
+        break;
+      }
+
+      const option = field.options[i];
+      const index = remainingValues.findIndex((/** @type {string} */ v) => v === option.value);
+
+      option.selected = index >= 0;
+      if (index >= 0) remainingValues.splice(index, 1);
+    }
+
+    // Deselect all remaining `options` after the stored values are emptied
+    for (let i = /** @type {number} */ (brokenAt); i < field.options.length; i++) field.options[i].selected = false;
+  }
+  // Other Form Fields
+  else field.value = /** @type {string} */ (storedValue);
+}
+/* eslint-enable no-param-reassign */
+
+/**
+ * @param {import("./types.d.ts").FormField | RadioNodeList} field
+ * @returns {ReadonlyArray<import("./types.d.ts").FormField>} The fields that announce the restoration of the
+ * provided `field`'s value. (Radio button groups are represented by their checked radio button, or by their first
+ * radio button if none are checked.)
+ */
+function getRestoredFields(field) {
+  if (!(field instanceof RadioNodeList)) return [field];
+
+  const fields = /** @type {import("./types.d.ts").FormField[]} */ (Array.from(field));
+  if (!isRadiogroup(field)) return fields;
+  return [fields.find((radio) => /** @type {HTMLInputElement} */ (radio).checked) ?? fields[0]];
+}
+
+/**
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @returns {boolean} `true` if the field with the provided `name` (or one of its radio buttons) currently has focus
+ */
+function isFocused(form, name) {
+  const root = /** @type {Document | ShadowRoot} */ (form.getRootNode());
+  // eslint-disable-next-line prefer-destructuring -- ESLint doesn't understand the necessary TS syntax
+  const activeElement = /** @type {Partial<import("./types.d.ts").FormField> | null} */ (root.activeElement);
+  return activeElement?.form === form && activeElement.name === name;
+}
+
+/**
+ * Applies `File`s that were retrieved from storage to the provided file `input`
+ *
+ * @param {HTMLInputElement} input
+ * @param {File[]} files
+ * @returns {void}
+ */
+function applyStoredFiles(input, files) {
+  const dataTransfer = new DataTransfer();
+  (input.multiple ? files : files.slice(0, 1)).forEach((file) => dataTransfer.items.add(file));
+  input.files = dataTransfer.files; // eslint-disable-line no-param-reassign -- This function updates the `input`
+}
+
+/**
+ * Calls the provided `callback` with the `name` of every named field that belongs to the provided `form`.
+ * (Groups of fields that share the same `name`, such as radio button groups, are only visited once.) If any of the
+ * `callback`s run asynchronously, then a `Promise` is returned which resolves after all of the `callback`s have
+ * finished.
+ *
+ * @param {HTMLFormElement} form
+ * @param {(name: string) => void | Promise<void>} callback
+ * @returns {void | Promise<void>}
+ */
+function forEachFieldName(form, callback) {
+  /** @type {Set<string>} */
+  const visitedNames = new Set();
+
+  /** @type {Promise<void>[]} */
+  const pendingOperations = [];
+
+  for (let i = 0; i < form.elements.length; i++) {
+    const field = /** @type {import("./types.d.ts").FormField} */ (form.elements[i]);
+
+    // Avoid visiting the same group of fields (e.g., a `radiogroup`) more than once
+    if (!field.name || visitedNames.has(field.name)) continue;
+    visitedNames.add(field.name);
+
+    const result = callback(field.name);
+    if (result instanceof Promise) pendingOperations.push(result);
+  }
+
+  return settleOperations(pendingOperations);
+}
+
+/**
+ * Calls the provided `callback` for every field name in the provided `form` (just like {@link forEachFieldName}),
+ * but in chunks. Between chunks, control is yielded back to the main thread. The names of the `priority` fields are
+ * visited first, followed by the names of the fields that are visible in the viewport.
+ *
+ * @param {HTMLFormElement} form
+ * @param {(name: string) => void | Promise<void>} callback
+ * @param {Readonly<Required<IncrementalLoadingOptions>>} options
+ * @returns {Promise<void>} Resolves after the `callback` has been called (and settled) for every field name
+ */
+function forEachFieldNameIncrementally(form, callback, { chunkSize, priority }) {
+  /** @type {string[]} */
+  const names = [];
+  forEachFieldName(form, (name) => {
+    names.push(name);
+  });
+
+  // Note: Visibility is determined before any values are written to avoid layout thrashing
+  const visibleNames = names.filter((name) => !priority.includes(name) && isInViewport(form, name));
+  const orderedNames = [
+    ...priority.filter((name) => names.includes(name)),
+    ...visibleNames,
+    ...names.filter((name) => !priority.includes(name) && !visibleNames.includes(name)),
+  ];
+
+  let index = 0;
+
+  /** @returns {void | Promise<void>} */
+  const visitNextChunk = () => {
+    const chunk = orderedNames.slice(index, index + chunkSize);
+    index += chunkSize;
+
+    /** @type {Promise<void>[]} */
+    const pendingOperations = [];
+    chunk.forEach((name) => {
+      const result = callback(name);
+      if (result instanceof Promise) pendingOperations.push(result);
+    });
+
+    return resolveThen(settleOperations(pendingOperations), () => {
+      if (index < orderedNames.length) return yieldToMainThread().then(visitNextChunk);
+    });
+  };
+
+  // The first chunk is visited immediately so that the most important fields are loaded as early as possible
+  return Promise.resolve(visitNextChunk());
+}
+
+/**
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @returns {boolean} `true` if the field (or the first field of the group) that has the provided `name` is at least
+ * partially visible in the viewport
+ */
+function isInViewport(form, name) {
+  const field = /** @type {import("./types.d.ts").FormField | RadioNodeList} */ (form.elements.namedItem(name));
+  const element = /** @type {Element} */ (field instanceof RadioNodeList ? field[0] : field);
+  const rect = element.getBoundingClientRect();
+
+  if (!rect.width || !rect.height) return false; // Not rendered
+  return rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth;
+}
+
+/**
+ * Yields control back to the main thread, using the best API that the browser supports (`scheduler.yield`, then
+ * `requestIdleCallback`, then `setTimeout`).
+ *
+ * @returns {Promise<void>} Resolves when the remaining work may continue
+ */
+function yieldToMainThread() {
+  const { scheduler } = /** @type {{ scheduler?: { yield?: () => Promise<void> } }} */ (globalThis);
+  if (typeof scheduler?.yield === "function") return scheduler.yield();
+
+  return new Promise((resolve) => {
+    if (typeof requestIdleCallback === "function") requestIdleCallback(() => resolve());
+    else setTimeout(resolve);
+  });
+}
+
+/** @returns {FormStorageLoadReport} */
+function createLoadReport() {
+  return { restored: [], mismatched: [], skipped: [], missing: [] };
+}
+
+/**
+ * Finds the names of the entries that were stored for the provided `form` but that don't belong to any of its
+ * fields. (Entries whose keys were generated by a custom `key` function can only be identified in `record` format.)
+ *
+ * In `field` format, entries whose names contain colons are ignored, because they could belong to another form whose
+ * name starts with this form's name (e.g., the key `form:a:b:c` belongs to either form `a` or form `a:b`).
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string[] | Promise<string[]>}
+ */
+function findMissingNames(form, config) {
+  /** @type {string[] | Promise<string[]>} */
+  let storedNames = [];
+
+  if (config.format === "record") {
+    storedNames = resolveThen(config.storage.get(getRecordKey(form, config)), (recordString) => {
+      return Object.keys(parseRecord(recordString));
+    });
+  } else if (typeof config.key !== "function") {
+    const formPrefix = getFieldKey(form, "", config);
+    storedNames = resolveThen(config.storage.keys(), (keys) => {
+      return keys
+        .filter((key) => key.startsWith(formPrefix) && !key.includes(":", formPrefix.length))
+        .map((key) => key.slice(formPrefix.length));
+    });
+  }
+
+  /** @type {Set<string>} */
+  const fieldNames = new Set();
+  forEachFieldName(form, (name) => {
+    fieldNames.add(name);
+  });
+  return resolveThen(storedNames, (names) => names.filter((name) => !fieldNames.has(name)));
+}
+
+/**
+ * Removes the orphaned entries of the provided `form` (if `target` is a form). Otherwise, removes all of the _expired_
+ * form data (and the data of the forms which aren't listed in the `keep` option).
+ *
+ * @param {HTMLFormElement | FormStoragePruneOptions | undefined} target
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function pruneData(target, config) {
+  if (target instanceof Element) {
+    assertElementIsForm(target);
+    return pruneOrphanedEntries(target, config);
+  }
+
+  const keep = target?.keep;
+  if (!keep) return pruneExpiredData(config);
+  return resolveThen(pruneUnlistedForms(keep, config), () => pruneExpiredData(config));
+}
+
+/**
+ * Removes the entries that were stored for the provided `form` but that don't belong to any of its fields
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function pruneOrphanedEntries(form, config) {
+  return resolveThen(findMissingNames(form, config), (names) => {
+    /** @type {Promise<void>[]} */
+    const pendingOperations = [];
+
+    names.forEach((name) => {
+      const result = removeEntry(form, name, config);
+      if (result instanceof Promise) pendingOperations.push(result);
+    });
+
+    return settleOperations(pendingOperations);
+  });
+}
+
+/**
+ * Removes all of the data (including snapshots) that belongs to the forms whose names aren't listed in `keep`
+ *
+ * @param {ReadonlyArray<string>} keep
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function pruneUnlistedForms(keep, config) {
+  if (typeof config.key === "function") return; // The keys generated by custom functions can't be identified
+  const keptForms = new Set(keep);
+  const prefix = getKeyPrefix(config);
+
+  return resolveThen(config.storage.keys(), (keys) => {
+    /** @type {Promise<void>[]} */
+    const pendingOperations = [];
+
+    keys.forEach((key) => {
+      if (!key.startsWith(prefix)) return;
+
+      // Keys that could belong to a kept form are kept
+      const formNames = getStoredFormNames(key.slice(prefix.length));
+      if (!formNames || formNames.some((formName) => keptForms.has(formName))) return;
+
+      const result = config.storage.remove(key);
+      if (result instanceof Promise) pendingOperations.push(result);
+    });
+
+    const indexUpdate = updateRecord(
+      getSaveIndexKey(config),
+      (index) => {
+        const entries = Object.entries(index).filter(([formName]) => keptForms.has(formName));
+        return entries.length === Object.keys(index).length ? undefined : Object.fromEntries(entries);
+      },
+      config,
+    );
+
+    if (indexUpdate instanceof Promise) pendingOperations.push(indexUpdate);
+    return settleOperations(pendingOperations);
+  });
+}
+
+/**
+ * @param {string} key A storage key (without its namespace)
+ * @returns {string[] | undefined} The names of the forms that the `key` could belong to, or `undefined` if the `key`
+ * wasn't generated by the `FormStorageObserver`. (Keys that contain a field name are ambiguous when form names
+ * contain colons. So every possible form name is returned for them.)
+ */
+function getStoredFormNames(key) {
+  const match = /^(form|form-record|form-snapshot|form-snapshots):(.*)$/s.exec(key);
+  if (!match) return;
+
+  const [, type, name] = match;
+  if (type === "form-record" || type === "form-snapshots") return [name];
+
+  const segments = name.split(":");
+  if (segments.length === 1) return;
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join(":"));
+}
+
+/**
+ * Removes all of the _expired_ form data from the configured storage backend
+ *
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function pruneExpiredData(config) {
+  if (typeof config.key === "function") return; // The keys generated by custom functions can't be identified
+  const prefix = getKeyPrefix(config);
+
+  return resolveThen(config.storage.keys(), (keys) => {
+    /** @type {Promise<void>[]} */
+    const pendingOperations = [];
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      let result;
+
+      // Only the data generated by the `FormStorageObserver` is relevant. Other keys are ignored.
+      // Note: Snapshots are stored in the observer's own `format`
+      const isSnapshot = key.startsWith(`${prefix}form-snapshot:`);
+      if (key.startsWith(`${prefix}form-record:`) || (isSnapshot && config.format === "record")) {
+        result = updateRecord(key, removeExpiredEntries, config);
+      } else if (key.startsWith(`${prefix}form:`) || isSnapshot) {
+        result = resolveThen(config.storage.get(key), (entryString) => {
+          try {
+            // Note: Every key returned by the storage backend is expected to have a value
+            const entry = /** @type {unknown} */ (JSON.parse(/** @type {string} */ (entryString)));
+            if (isExpired(toEnvelope(entry))) return config.storage.remove(key);
+          } catch {
+            // Values that aren't valid JSON weren't generated by us. Leave them alone.
+          }
+        });
+      }
+
+      if (result instanceof Promise) pendingOperations.push(result);
+    }
+
+    return settleOperations(pendingOperations);
+  });
+}
+
+/**
+ * @param {StorageRecord} record
+ * @returns {StorageRecord | undefined} A copy of the `record` without its expired entries, or `undefined` if none of
+ * the `record`'s entries have expired
  */
-function getFieldKey(formName, fieldName) {
-  return `form:${formName || "global-scope"}:${fieldName}`;
+function removeExpiredEntries(record) {
+  const entries = Object.entries(record).filter(([, entry]) => !isExpired(toEnvelope(entry)));
+  return entries.length === Object.keys(record).length ? undefined : Object.fromEntries(entries);
 }
 
-export default FormStorageObserver;
+/**
+ * Writes the value of the field with the provided `name` to the configured storage backend. `undefined` values (which
+ * can't be represented in JSON) remove the field's stored entry instead.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {unknown} value
+ * @param {Readonly<StorageConfig>} config
+ * @param {number} [expires] The expiration timestamp to keep for the entry (instead of starting a new lifetime)
+ * @returns {void | Promise<void>}
+ */
+function storeValue(form, name, value, config, expires) {
+  if (value === undefined) return removeEntry(form, name, config);
+  return resolveThen(createEntry(value, config, expires), (entry) => writeEntry(form, name, entry, config));
+}
+
+/**
+ * Converts a field's value into the entry (i.e., the JSON-compatible value) that will be written to storage.
+ * (Values are wrapped in a {@link StorageEnvelope} when metadata needs to be stored alongside them.)
+ * Runs asynchronously if the value needs to be encrypted.
+ *
+ * @param {unknown} value
+ * @param {Readonly<StorageConfig>} config
+ * @param {number} [expires] The expiration timestamp to use instead of one derived from `config.expiresIn`
+ * @returns {unknown | Promise<unknown>}
+ */
+function createEntry(value, config, expires = config.expiresIn == null ? undefined : Date.now() + config.expiresIn) {
+  if (expires == null && !config.encryptionKey && config.version == null) return value;
+
+  /** @type {StorageEnvelope} */
+  const envelope = { fso: envelopeVersion, expires, version: config.version };
+  if (!config.encryptionKey) return { ...envelope, value };
+
+  return encryptValue(value, config.encryptionKey).then((encrypted) => ({ ...envelope, encrypted }));
+}
+
+/**
+ * Converts an entry that was written to storage into a {@link StorageEnvelope}. (Raw JSON values are
+ * treated as envelopes that have no metadata.)
+ *
+ * @param {unknown} entry
+ * @returns {StorageEnvelope}
+ */
+function toEnvelope(entry) {
+  if (isStorageEnvelope(entry)) return entry;
+  return { fso: envelopeVersion, value: entry };
+}
+
+/**
+ * Reads the entry stored for the field with the provided `name` (from the field's own key, or from its form's
+ * {@link StorageRecord}). Returns `undefined` if no entry exists, and {@link corruptEntry} if the stored data
+ * can't be parsed.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {unknown | Promise<unknown>}
+ */
+function readEntry(form, name, config) {
+  if (config.format !== "record") {
+    return resolveThen(config.storage.get(getFieldKey(form, name, config)), (entryString) => {
+      return entryString ? parseEntry(form, name, entryString, config) : undefined;
+    });
+  }
+
+  return resolveThen(config.storage.get(getRecordKey(form, config)), (recordString) => {
+    if (!recordString) return;
+
+    const record = parseEntry(form, name, recordString, config);
+    if (!isStorageRecord(record)) return corruptEntry;
+    return Object.prototype.hasOwnProperty.call(record, name) ? record[name] : undefined;
+  });
+}
+
+/**
+ * Parses the provided JSON string that was read for the field with the provided `name`. Errors are passed to the
+ * configured `onError` hook (instead of being thrown), and the string is treated as a {@link corruptEntry}.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {string} entryString
+ * @param {Readonly<StorageConfig>} config
+ * @returns {unknown}
+ */
+function parseEntry(form, name, entryString, config) {
+  try {
+    return /** @type {unknown} */ (JSON.parse(entryString));
+  } catch (error) {
+    config.onError?.(error, form, name);
+    return corruptEntry;
+  }
+}
+
+/**
+ * Parses the provided {@link StorageRecord} string. Missing and corrupt records are treated as empty records
+ * (so that they can be overwritten).
+ *
+ * @param {string | null} recordString
+ * @returns {StorageRecord}
+ */
+function parseRecord(recordString) {
+  if (!recordString) return {};
+
+  try {
+    const record = /** @type {unknown} */ (JSON.parse(recordString));
+    return isStorageRecord(record) ? record : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Writes the provided `entry` for the field with the provided `name` (to the field's own key, or to its form's
+ * {@link StorageRecord}), respecting the configured `eviction` policy.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {unknown} entry
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function writeEntry(form, name, entry, config) {
+  const { eviction } = config;
+  const write = () => {
+    if (config.format !== "record") return config.storage.set(getFieldKey(form, name, config), JSON.stringify(entry));
+    return updateRecord(getRecordKey(form, config), (record) => ({ ...record, [name]: entry }), config);
+  };
+
+  if (!eviction) return write();
+  if (eviction === "oldest-forms") return writeEvictingOldestForms(form, write, config);
+
+  return resolveThen(measureFormData(form, name, entry, config), (size) => {
+    if (size <= eviction.maxBytesPerForm) return write();
+    throw new DOMException(
+      `Saving "${name}" would exceed the form's storage budget of ${eviction.maxBytesPerForm} bytes.`,
+      "QuotaExceededError",
+    );
+  });
+}
+
+/**
+ * Runs the provided `write` for the provided `form`. Whenever the `write` exceeds the storage quota, the regular data
+ * of the least recently saved form (other than the provided `form`) is evicted, and the `write` is retried.
+ *
+ * @param {HTMLFormElement} form
+ * @param {() => void | Promise<void>} write
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function writeEvictingOldestForms(form, write, config) {
+  if (typeof config.key === "function") return write(); // The keys generated by custom functions can't be identified
+
+  const formName = form.name || "global-scope";
+  const writeAndTrack = () => {
+    return resolveThen(write(), () => {
+      return updateRecord(getSaveIndexKey(config), (index) => ({ ...index, [formName]: Date.now() }), config);
+    });
+  };
+
+  return attempt(writeAndTrack, (error) => {
+    if (!isQuotaExceededError(error)) throw error;
+
+    return resolveThen(evictOldestForm(formName, config), (evicted) => {
+      if (!evicted) throw error; // There is nothing left to evict
+      return writeEvictingOldestForms(form, write, config);
+    });
+  });
+}
+
+/**
+ * Removes the regular data of the least recently saved form (excluding the form named `excludedFormName`)
+ *
+ * @param {string} excludedFormName
+ * @param {Readonly<StorageConfig>} config
+ * @returns {boolean | Promise<boolean>} `true` if a form was evicted
+ */
+function evictOldestForm(excludedFormName, config) {
+  const indexKey = getSaveIndexKey(config);
+
+  return resolveThen(config.storage.get(indexKey), (indexString) => {
+    const index = /** @type {Record<string, number>} */ (parseRecord(indexString));
+    const [oldestFormName] = Object.keys(index)
+      .filter((formName) => formName !== excludedFormName)
+      .sort((a, b) => index[a] - index[b]);
+
+    if (!oldestFormName) return false;
+    const fieldKeyPrefix = `${getKeyPrefix(config)}form:${oldestFormName}:`;
+    const recordKey = `${getKeyPrefix(config)}form-record:${oldestFormName}`;
+
+    // Note: Field keys with extra colons might belong to other forms (see `findMissingNames`), so they're left alone
+    const isEvictedKey = (/** @type {string} */ key) => {
+      return key === recordKey || (key.startsWith(fieldKeyPrefix) && !key.includes(":", fieldKeyPrefix.length));
+    };
+
+    return resolveThen(config.storage.keys(), (keys) => {
+      /** @type {Array<void | Promise<void>>} */
+      const results = keys.filter(isEvictedKey).map((key) => config.storage.remove(key));
+
+      results.push(
+        updateRecord(
+          indexKey,
+          (savedForms) => Object.fromEntries(Object.entries(savedForms).filter(([name]) => name !== oldestFormName)),
+          config,
+        ),
+      );
+
+      const pendingOperations = results.filter((result) => result instanceof Promise);
+      return resolveThen(settleOperations(pendingOperations), () => true);
+    });
+  });
+}
+
+/**
+ * Measures the number of bytes that the provided `form`'s stored data would occupy after the provided `entry` is
+ * written for the field with the provided `name`
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {unknown} entry
+ * @param {Readonly<StorageConfig>} config
+ * @returns {number | Promise<number>}
+ */
+function measureFormData(form, name, entry, config) {
+  if (config.format === "record") {
+    const recordKey = getRecordKey(form, config);
+    return resolveThen(config.storage.get(recordKey), (recordString) => {
+      return measureItem(recordKey, JSON.stringify({ ...parseRecord(recordString), [name]: entry }));
+    });
+  }
+
+  let size = measureItem(getFieldKey(form, name, config), JSON.stringify(entry));
+  const measuring = forEachFieldName(form, (fieldName) => {
+    if (fieldName === name) return;
+
+    const key = getFieldKey(form, fieldName, config);
+    return resolveThen(config.storage.get(key), (entryString) => {
+      if (entryString) size += measureItem(key, entryString);
+    });
+  });
+
+  return resolveThen(measuring, () => size);
+}
+
+/**
+ * @param {string} key
+ * @param {string} value
+ * @returns {number} The number of bytes that the provided item occupies in storage (as UTF-16)
+ */
+function measureItem(key, value) {
+  return (key.length + value.length) * 2;
+}
+
+/**
+ * @param {unknown} error
+ * @returns {boolean} `true` if the `error` indicates that the storage quota was exceeded
+ */
+function isQuotaExceededError(error) {
+  // Note: Older versions of Firefox use a different name for this error
+  const name = /** @type {{ name?: unknown } | null | undefined} */ (error)?.name;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+/**
+ * Removes the entry stored for the field with the provided `name` (from the field's own key, or from its form's
+ * {@link StorageRecord}).
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function removeEntry(form, name, config) {
+  if (config.format !== "record") return config.storage.remove(getFieldKey(form, name, config));
+  return updateRecord(
+    getRecordKey(form, config),
+    (record) => {
+      if (!Object.prototype.hasOwnProperty.call(record, name)) return;
+      return Object.fromEntries(Object.entries(record).filter(([fieldName]) => fieldName !== name));
+    },
+    config,
+  );
+}
+
+/**
+ * Clears the stored data (including the stored `File`s of file inputs) for the field that has the provided `name`,
+ * or for the entire `form` if no `name` is provided.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string | undefined} name
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function clearStoredData(form, name, config) {
+  const { files } = config;
+
+  // Single Field
+  if (name) {
+    const removal = removeEntry(form, name, config);
+    if (!files || !isFileInput(form, name)) return removal;
+    return settleOperations([Promise.resolve(removal), files.remove(getFieldKey(form, name, config))]);
+  }
+
+  // Entire Form
+  if (config.format !== "record")
+    return forEachFieldName(form, (fieldName) => clearStoredData(form, fieldName, config));
+
+  const removal = updateRecord(getRecordKey(form, config), () => ({}), config); // Empty records are removed
+  if (!files) return removal;
+
+  const fileRemovals = forEachFieldName(form, (fieldName) => {
+    return isFileInput(form, fieldName) ? files.remove(getFieldKey(form, fieldName, config)) : undefined;
+  });
+  return fileRemovals ? settleOperations([Promise.resolve(removal), fileRemovals]) : removal;
+}
+
+/**
+ * Removes all of the data stored for the provided `form`'s snapshot, including (in `field` format) the entries of
+ * fields that no longer belong to the `form`. Entries whose field names contain colons can't be distinguished from
+ * the entries of other forms' snapshots, so they are only removed if their fields still exist.
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} snapshotName
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function clearSnapshotData(form, snapshotName, config) {
+  const snapshotConfig = getSnapshotConfig(config, snapshotName);
+  const removal = clearStoredData(form, undefined, snapshotConfig);
+  if (config.format === "record" || typeof config.key === "function") return removal;
+
+  const snapshotPrefix = getFieldKey(form, "", snapshotConfig);
+  return resolveThen(removal, () => {
+    return resolveThen(config.storage.keys(), (keys) => {
+      /** @type {Promise<void>[]} */
+      const pendingOperations = [];
+
+      keys.forEach((key) => {
+        if (!key.startsWith(snapshotPrefix) || key.includes(":", snapshotPrefix.length)) return;
+        const result = config.storage.remove(key);
+        if (result instanceof Promise) pendingOperations.push(result);
+      });
+
+      return settleOperations(pendingOperations);
+    });
+  });
+}
+
+/**
+ * Atomically reads, modifies, and writes the {@link StorageRecord} stored under the provided `key`. The `update`
+ * function returns the new record, or `undefined` if the record should be left alone. (Empty records are removed.)
+ *
+ * Updates to the same record run in the order that they were requested. With an asynchronous storage backend,
+ * an update waits for all of the previous updates to the same record to finish before it reads the record.
+ *
+ * @param {string} key
+ * @param {(record: StorageRecord) => StorageRecord | undefined} update
+ * @param {Readonly<StorageConfig>} config
+ * @returns {void | Promise<void>}
+ */
+function updateRecord(key, update, config) {
+  let pendingUpdates = pendingRecordUpdates.get(config.storage);
+  if (!pendingUpdates) {
+    pendingUpdates = new Map();
+    pendingRecordUpdates.set(config.storage, pendingUpdates);
+  }
+
+  const applyUpdate = () => {
+    return resolveThen(config.storage.get(key), (recordString) => {
+      const updatedRecord = update(parseRecord(recordString));
+      if (!updatedRecord) return;
+      if (!Object.keys(updatedRecord).length) return config.storage.remove(key);
+      return config.storage.set(key, JSON.stringify(updatedRecord));
+    });
+  };
+
+  const previousUpdate = pendingUpdates.get(key);
+  const result = previousUpdate ? previousUpdate.then(applyUpdate) : applyUpdate();
+  if (!(result instanceof Promise)) return result;
+
+  // Keep track of the update until it settles. (Failed updates must not block the updates that come after them.)
+  const recordUpdates = pendingUpdates;
+  const pendingUpdate = result.then(
+    () => undefined,
+    () => undefined,
+  );
+
+  recordUpdates.set(key, pendingUpdate);
+  pendingUpdate.then(() => recordUpdates.get(key) === pendingUpdate && recordUpdates.delete(key));
+  return result;
+}
+
+/**
+ * @param {unknown} value
+ * @returns {value is StorageRecord}
+ */
+function isStorageRecord(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @param {unknown} value
+ * @returns {value is StorageEnvelope}
+ */
+function isStorageEnvelope(value) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  return /** @type {Partial<StorageEnvelope>} */ (value).fso === envelopeVersion;
+}
+
+/**
+ * @param {StorageEnvelope} envelope
+ * @returns {boolean} `true` if the `envelope`'s value has expired
+ */
+function isExpired(envelope) {
+  return envelope.expires != null && envelope.expires <= Date.now();
+}
+
+/**
+ * Encrypts the JSON representation of the provided `value` with `AES-GCM`
+ *
+ * @param {unknown} value
+ * @param {CryptoKey} key
+ * @returns {Promise<EncryptedValue>}
+ */
+function encryptValue(value, key) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+
+  return crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext).then((ciphertext) => {
+    return { iv: encodeBase64(iv), data: encodeBase64(new Uint8Array(ciphertext)) };
+  });
+}
+
+/**
+ * Decrypts a value that was encrypted by {@link encryptValue}
+ *
+ * @param {EncryptedValue} encrypted
+ * @param {CryptoKey} key
+ * @returns {Promise<unknown>}
+ */
+function decryptValue(encrypted, key) {
+  const iv = decodeBase64(encrypted.iv);
+  return crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, decodeBase64(encrypted.data)).then((plaintext) => {
+    return /** @type {unknown} */ (JSON.parse(new TextDecoder().decode(plaintext)));
+  });
+}
+
+/**
+ * @param {Uint8Array} bytes
+ * @returns {string}
+ */
+function encodeBase64(bytes) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+/**
+ * @param {string} base64
+ * @returns {Uint8Array<ArrayBuffer>}
+ */
+function decodeBase64(base64) {
+  return Uint8Array.from(atob(base64), (character) => character.charCodeAt(0));
+}
+
+/**
+ * Returns a `Promise` that resolves after all of the `pendingOperations` have completed. If there are
+ * no `pendingOperations`, nothing is returned.
+ *
+ * @param {Promise<void>[]} pendingOperations
+ * @returns {void | Promise<void>}
+ */
+function settleOperations(pendingOperations) {
+  if (pendingOperations.length) return Promise.all(pendingOperations).then(() => undefined);
+}
+
+/**
+ * Calls the provided `operation`, passing any error that it throws (or that its `Promise` rejects with) to
+ * `handleError`. Synchronous errors are handled synchronously.
+ *
+ * @template T
+ * @template R
+ * @param {() => T | Promise<T>} operation
+ * @param {(error: unknown) => R} handleError
+ * @returns {T | R | Promise<Awaited<T | R>>}
+ */
+function attempt(operation, handleError) {
+  try {
+    const result = operation();
+    return result instanceof Promise ? /** @type {Promise<Awaited<T | R>>} */ (result.catch(handleError)) : result;
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * Calls the provided `callback` with the (resolved) `value`. If `value` is a `Promise`, the `callback` is called
+ * asynchronously. Otherwise, the `callback` is called synchronously.
+ *
+ * @template T
+ * @template R
+ * @param {T | Promise<T>} value
+ * @param {(value: T) => R} callback
+ * @returns {R | Promise<Awaited<R>>}
+ */
+function resolveThen(value, callback) {
+  if (!(value instanceof Promise)) return callback(value);
+  return /** @type {Promise<Awaited<R>>} */ (value.then(callback));
+}
+
+/**
+ * @template T
+ * @param {OneOrMany<T>} value
+ * @returns {ReadonlyArray<T>}
+ */
+function toArray(value) {
+  return value instanceof Array ? value : [value];
+}
+
+/**
+ * Derives the proper storage key for a given `form`'s field (respecting the configured `key`)
+ *
+ * @param {HTMLFormElement} form
+ * @param {string} fieldName
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string}
+ */
+function getFieldKey(form, fieldName, config) {
+  if (typeof config.key === "function") return config.key(form, fieldName);
+  return `${getKeyPrefix(config)}form:${form.name || "global-scope"}:${fieldName}`;
+}
+
+/**
+ * Derives the storage key for a given `form`'s {@link StorageRecord} (respecting the configured `key`)
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string}
+ */
+function getRecordKey(form, config) {
+  if (typeof config.key === "function") return config.key(form, "");
+  return `${getKeyPrefix(config)}form-record:${form.name || "global-scope"}`;
+}
+
+/**
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string} The namespace that precedes the default storage keys (derived from a `string` `key`)
+ */
+function getKeyPrefix(config) {
+  return typeof config.key === "string" ? `${config.key}:` : "";
+}
+
+/**
+ * Derives the configuration used to store the provided `form`'s snapshot with the provided `snapshotName`.
+ * (Snapshots are stored just like a form's regular data, but under their own keys.)
+ *
+ * @param {Readonly<StorageConfig>} config
+ * @param {string} snapshotName
+ * @returns {Readonly<StorageConfig>}
+ */
+function getSnapshotConfig(config, snapshotName) {
+  const { key } = config;
+
+  return Object.freeze({
+    ...config,
+    key: (/** @type {HTMLFormElement} */ form, /** @type {string} */ fieldName) => {
+      if (typeof key === "function") return key(form, `snapshot:${snapshotName}:${fieldName}`);
+      return `${getKeyPrefix(config)}form-snapshot:${form.name || "global-scope"}:${snapshotName}:${fieldName}`;
+    },
+  });
+}
+
+/**
+ * Derives the storage key for the index of the forms whose data was saved (and when they were last saved). Only used
+ * by the `oldest-forms` eviction policy.
+ *
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string}
+ */
+function getSaveIndexKey(config) {
+  return `${getKeyPrefix(config)}form-saves`;
+}
+
+/**
+ * Derives the storage key for the index of a given `form`'s snapshots (respecting the configured `key`)
+ *
+ * @param {HTMLFormElement} form
+ * @param {Readonly<StorageConfig>} config
+ * @returns {string}
+ */
+function getSnapshotIndexKey(form, config) {
+  if (typeof config.key === "function") return config.key(form, "snapshot:");
+  return `${getKeyPrefix(config)}form-snapshots:${form.name || "global-scope"}`;
+}
+
+/* -------------------- Storage Adapters -------------------- */
+/**
+ * Creates a {@link FormStorageAdapter} that stores form data in `localStorage`. (This is the default storage backend
+ * used by the {@link FormStorageObserver}.)
+ *
+ * @returns {FormStorageAdapter}
+ */
+export function createLocalStorageAdapter() {
+  return createWebStorageAdapter(() => localStorage);
+}
+
+/**
+ * Creates a {@link FormStorageAdapter} that stores form data in `sessionStorage`.
+ *
+ * @returns {FormStorageAdapter}
+ */
+export function createSessionStorageAdapter() {
+  return createWebStorageAdapter(() => sessionStorage);
+}
+
+/**
+ * Creates a {@link FormStorageAdapter} that stores form data in memory. The data only lasts as long as the adapter
+ * does. (Useful for testing and for environments that lack the Web Storage API.)
+ *
+ * @returns {FormStorageAdapter}
+ */
+export function createMemoryStorageAdapter() {
+  /** @type {Map<string, string>} */
+  const data = new Map();
+
+  return {
+    get(key) {
+      return data.get(key) ?? null;
+    },
+    set(key, value) {
+      data.set(key, value);
+    },
+    remove(key) {
+      data.delete(key);
+    },
+    keys() {
+      return Array.from(data.keys());
+    },
+  };
+}
+
+/**
+ * Creates an _asynchronous_ {@link FormStorageAdapter} that stores form data in `IndexedDB`.
+ *
+ * @param {Object} [options]
+ * @param {string} [options.database] The name of the `IndexedDB` database to use. Defaults to `"form-observer"`.
+ * @param {string} [options.store] The name of the object store to use within the `database`.
+ * Defaults to `"form-storage"`.
+ * @returns {FormStorageAdapter}
+ */
+export function createIndexedDBStorageAdapter(options) {
+  const transact = createIDBTransactor(options?.database ?? "form-observer", options?.store ?? "form-storage");
+
+  return {
+    get: (key) => transact("readonly", (store) => store.get(key)).then((value) => value ?? null),
+    set: (key, value) => transact("readwrite", (store) => store.put(value, key)).then(() => undefined),
+    remove: (key) => transact("readwrite", (store) => store.delete(key)),
+    keys: () => transact("readonly", (store) => store.getAllKeys()).then((keys) => keys.map(String)),
+  };
+}
+
+/**
+ * Creates the `IndexedDB` storage backend used for the `File`s selected in `<input type="file">` elements
+ *
+ * @param {FileStorageOptions} options
+ * @returns {FileStore}
+ */
+function createFileStore(options) {
+  const transact = createIDBTransactor(options.database ?? "form-observer-files", options.store ?? "form-files");
+  const maxTotalSize = options.maxTotalSize ?? 10 * 1024 * 1024;
+
+  return {
+    get: (key) => transact("readonly", (store) => store.get(key)),
+    set: (key, files) => transact("readwrite", (store) => store.put(files, key)).then(() => undefined),
+    remove: (key) => transact("readwrite", (store) => store.delete(key)),
+    maxFileSize: options.maxFileSize ?? maxTotalSize,
+    maxTotalSize,
+  };
+}
+
+/**
+ * Creates a function that runs operations against the specified `IndexedDB` object store. (The database is
+ * opened lazily, the first time that an operation is run.)
+ *
+ * @param {string} databaseName
+ * @param {string} storeName
+ * @returns {<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>}
+ */
+function createIDBTransactor(databaseName, storeName) {
+  /** @type {Promise<IDBDatabase> | undefined} */
+  let database;
+
+  return function transact(mode, operation) {
+    if (!database) {
+      database = openIDBDatabase(databaseName, storeName).then((db) => {
+        // Let other connections upgrade the database (e.g., to add their own stores). Reopen it on the next operation.
+        // eslint-disable-next-line no-param-reassign -- Required for IDB
+        db.onversionchange = () => {
+          db.close();
+          database = undefined;
+        };
+
+        return db;
+      });
+    }
+
+    return database.then((db) => promisifyRequest(operation(db.transaction(storeName, mode).objectStore(storeName))));
+  };
+}
+
+/**
+ * Opens the specified `IndexedDB` database, upgrading it to a new version if it doesn't have the required object store
+ * yet. (This happens when multiple stores share a database.)
+ *
+ * @param {string} databaseName
+ * @param {string} storeName
+ * @param {number} [version]
+ * @returns {Promise<IDBDatabase>}
+ */
+function openIDBDatabase(databaseName, storeName, version) {
+  const request = indexedDB.open(databaseName, version);
+  request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+
+  return promisifyRequest(request).then((db) => {
+    if (db.objectStoreNames.contains(storeName)) return db;
+
+    db.close();
+    return openIDBDatabase(databaseName, storeName, db.version + 1);
+  });
+}
+
+/**
+ * Converts an `IDBRequest` into a `Promise` that settles when the `request` succeeds or fails
+ *
+ * @template T
+ * @param {IDBRequest<T>} request
+ * @returns {Promise<T>}
+ */
+function promisifyRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result); // eslint-disable-line no-param-reassign -- Required for IDB
+    request.onerror = () => reject(request.error); // eslint-disable-line no-param-reassign -- Required for IDB
+  });
+}
+
+/**
+ * Creates a {@link FormStorageAdapter} for an object implementing the
+ * [Web Storage API](https://developer.mozilla.org/en-US/docs/Web/API/Web_Storage_API).
+ * (The `Storage` object is accessed lazily to avoid errors in non-browser environments.)
+ *
+ * @param {() => Storage} getStorage
+ * @returns {FormStorageAdapter}
+ */
+function createWebStorageAdapter(getStorage) {
+  return {
+    get: (key) => getStorage().getItem(key),
+    set: (key, value) => getStorage().setItem(key, value),
+    remove: (key) => getStorage().removeItem(key),
+    keys: () => {
+      const storage = getStorage();
+      return Array.from({ length: storage.length }, (_, i) => /** @type {string} */ (storage.key(i)));
+    },
+  };
+}
@@ -692,6 +692,124 @@ describe("Form Observer (Class)", () => {
       });
     });
   });
+
+  /* -------------------- Field Lifecycle Hooks -------------------- */
+  describe("Field Lifecycle Hooks", () => {
+    const onFieldAdded = vi.fn();
+    const onFieldRemoved = vi.fn();
+
+    /** Creates a `FormObserver` whose field lifecycle hooks are overridden with the mock hooks */
+    function createFieldTrackingObserver(): FormObserver {
+      const formObserver = new FormObserver(types[0], listeners[0]);
+      formObserver.onFieldAdded = onFieldAdded;
+      formObserver.onFieldRemoved = onFieldRemoved;
+      return formObserver;
+    }
+
+    /** Waits for the `MutationObserver`s to process all of the DOM changes that have happened so far */
+    function flushMutations(): Promise<void> {
+      return new Promise((resolve) => {
+        setTimeout(resolve);
+      });
+    }
+
+    it("Calls `onFieldAdded`/`onFieldRemoved` when fields enter or leave an observed form's `elements`", async () => {
+      const formObserver = createFieldTrackingObserver();
+      const { primaryForm, secondaryForm } = renderForms();
+      formObserver.observe(primaryForm);
+
+      // Fields that were already present are ignored, and so are elements that aren't fields
+      primaryForm.append(document.createElement("div"));
+      await flushMutations();
+      expect(onFieldAdded).not.toHaveBeenCalled();
+
+      // Dynamically-rendered Fields
+      const fieldset = createElement("fieldset", {});
+      const nestedInput = fieldset.appendChild(createElement("input", { name: "nested" }));
+      primaryForm.append(fieldset);
+
+      await flushMutations();
+      expect(onFieldAdded).toHaveBeenCalledTimes(2);
+      expect(onFieldAdded).toHaveBeenNthCalledWith(1, fieldset, primaryForm);
+      expect(onFieldAdded).toHaveBeenNthCalledWith(2, nestedInput, primaryForm);
+
+      // Removed Fields
+      nestedInput.remove();
+      await flushMutations();
+      expect(onFieldRemoved).toHaveBeenCalledExactlyOnceWith(nestedInput, primaryForm);
+
+      // Unobserved Forms
+      secondaryForm.append(createElement("input", { name: "ignored" }));
+      formObserver.unobserve(primaryForm);
+      primaryForm.append(createElement("input", { name: "also-ignored" }));
+      fieldset.remove();
+
+      await flushMutations();
+      expect(onFieldAdded).toHaveBeenCalledTimes(2);
+      expect(onFieldRemoved).toHaveBeenCalledTimes(1);
+    });
+
+    it("Detects the fields that are associated with an observed form through the `form` attribute", async () => {
+      const formObserver = createFieldTrackingObserver();
+      const { primaryForm, secondaryForm, openShadowForm1 } = renderForms();
+      formObserver.observe(primaryForm);
+      formObserver.observe(openShadowForm1);
+
+      // Fields Outside the Form
+      const externalInput = document.body.appendChild(createElement("input", {}, { form: primaryForm.id }));
+      await flushMutations();
+      expect(onFieldAdded).toHaveBeenCalledExactlyOnceWith(externalInput, primaryForm);
+
+      // Fields Pointed at a Different Form
+      externalInput.setAttribute("form", secondaryForm.id);
+      await flushMutations();
+      expect(onFieldRemoved).toHaveBeenCalledExactlyOnceWith(externalInput, primaryForm);
+
+      // Forms Whose `id` Changed
+      const externalFields = Array.from(primaryForm.elements).filter((field) => !primaryForm.contains(field));
+      primaryForm.id = "renamed-form";
+      await flushMutations();
+      expect(onFieldRemoved).toHaveBeenCalledTimes(1 + externalFields.length);
+      externalFields.forEach((field) => expect(onFieldRemoved).toHaveBeenCalledWith(field, primaryForm));
+
+      // Fields in the Shadow DOM
+      const shadowInput = createElement("input", {}, { form: openShadowForm1.id });
+      (openShadowForm1.getRootNode() as ShadowRoot).append(shadowInput);
+      await flushMutations();
+      expect(onFieldAdded).toHaveBeenLastCalledWith(shadowInput, openShadowForm1);
+
+      formObserver.disconnect();
+    });
+
+    it("Only watches the DOM when at least one of the hooks is overridden", async () => {
+      const observeMutations = vi.spyOn(MutationObserver.prototype, "observe");
+      const { primaryForm, secondaryForm } = renderForms();
+
+      const formObserver = new FormObserver(types[0], listeners[0]);
+      formObserver.observe(primaryForm);
+      expect(observeMutations).not.toHaveBeenCalled();
+
+      // Hooks that aren't overridden do nothing
+      const onlyRemovals = new FormObserver(types[0], listeners[0]);
+      onlyRemovals.onFieldRemoved = onFieldRemoved;
+      onlyRemovals.observe(secondaryForm);
+
+      const onlyAdditions = new FormObserver(types[0], listeners[0]);
+      onlyAdditions.onFieldAdded = onFieldAdded;
+      onlyAdditions.observe(secondaryForm);
+      expect(observeMutations).toHaveBeenCalledTimes(2);
+
+      const [field] = Array.from(secondaryForm.elements);
+      field.remove();
+      const newField = secondaryForm.appendChild(createElement("input", {}));
+
+      await flushMutations();
+      expect(onFieldRemoved).toHaveBeenCalledExactlyOnceWith(field, secondaryForm);
+      expect(onFieldAdded).toHaveBeenCalledExactlyOnceWith(newField, secondaryForm);
+      onlyRemovals.disconnect();
+      onlyAdditions.disconnect();
+    });
+  });
 });
 
 /* ---------------------------------------- TypeScript Type-only Tests ---------------------------------------- */
@@ -736,6 +854,11 @@ describe("Form Observer (Class)", () => {
   new FormObserver([event1, event2] as const, [(e) => e.data, (e) => e.x]);
   new FormObserver([event1, event2] as const, [(e) => e.data, (e) => e.x], true); // Options as single value
   new FormObserver([event1, event2] as const, [(e) => e.data, (e) => e.x], []); // Options as INCOMPLETE array
+
+  // Field Lifecycle Hooks
+  const formObserver = new FormObserver(event1, () => {});
+  formObserver.onFieldAdded = (field) => field.name;
+  formObserver.onFieldRemoved = (field, form) => form.elements.namedItem(field.name);
 })();
 /* eslint-enable @typescript-eslint/no-empty-function */
 /* eslint-enable no-unreachable */
@@ -1,12 +1,25 @@
+/* eslint-disable max-classes-per-file */
 import { vi, beforeAll, beforeEach, describe, it, expect } from "vitest";
 import { screen, within } from "@testing-library/dom";
 import { userEvent } from "@testing-library/user-event";
 import "@testing-library/jest-dom/vitest";
 import { faker } from "@faker-js/faker";
+import "fake-indexeddb/auto";
 import type { EventType, FormField } from "../types.d.ts";
 import * as Assertions from "../utils/assertions.js";
 import FormObserver from "../FormObserver.js";
-import FormStorageObserver from "../FormStorageObserver.js";
+import FormStorageObserver, {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createMemoryStorageAdapter,
+  createIndexedDBStorageAdapter,
+} from "../FormStorageObserver.js";
+import type {
+  FormStorageAdapter,
+  FormStorageExport,
+  StatefulFormField,
+  StorableField,
+} from "../FormStorageObserver.js";
 
 describe("Form Storage Observer (Class)", () => {
   // Form Storage Observer Constants
@@ -27,6 +40,19 @@ describe("Form Storage Observer (Class)", () => {
     document.body.replaceChildren();
   });
 
+  /** Renders a simple `form` with a single textbox and returns references to both (alongside the textbox's key) */
+  function renderSimpleForm() {
+    document.body.innerHTML = `
+      <form name="simple-form" aria-label="Test Form">
+        <input name="textbox" type="text" aria-label="Textbox" />
+      </form>
+    `;
+
+    const form = screen.getByRole<HTMLFormElement>("form");
+    const input = screen.getByRole<HTMLInputElement>("textbox");
+    return { form, input, key: `form:${form.name}:${input.name}` };
+  }
+
   it("Is a child of the base `FormObserver` class", () => {
     expect(new FormStorageObserver(types[0])).toEqual(expect.any(FormObserver));
   });
@@ -73,13 +99,13 @@ describe("Form Storage Observer (Class)", () => {
 
     it("Automatically loads a `form`'s data from `localStorage` IF the `automate` option says so (default)", () => {
       const form = document.createElement("form");
-      vi.spyOn(FormStorageObserver, "load");
+      vi.spyOn(FormStorageObserver.prototype, "load");
 
       // No data is loaded when `automate` is `deletion` or `neither`
       (["deletion", "neither"] as const).forEach((automate) => {
         const formStorageObserver = new FormStorageObserver(types, { automate });
         formStorageObserver.observe(form);
-        expect(FormStorageObserver.load).not.toHaveBeenCalled();
+        expect(FormStorageObserver.prototype.load).not.toHaveBeenCalled();
       });
 
       // Data is automatically loaded for newly observed forms by default, or when `automate` is `loading` or `both`
@@ -87,23 +113,23 @@ describe("Form Storage Observer (Class)", () => {
         const formStorageObserver = new FormStorageObserver(types, { automate });
         formStorageObserver.observe(form);
 
-        expect(FormStorageObserver.load).toHaveBeenCalledTimes(i + 1);
-        expect(FormStorageObserver.load).toHaveBeenNthCalledWith(i + 1, form);
+        expect(FormStorageObserver.prototype.load).toHaveBeenCalledTimes(i + 1);
+        expect(FormStorageObserver.prototype.load).toHaveBeenNthCalledWith(i + 1, form);
       });
     });
 
     it("Does nothing with a `form` that is already being observed", () => {
       const form = document.createElement("form");
       const formStorageObserver = new FormStorageObserver(types, { automate: "both" });
-      vi.spyOn(FormStorageObserver, "load");
+      vi.spyOn(FormStorageObserver.prototype, "load");
 
       // Newly observe the form
       formStorageObserver.observe(form);
-      expect(FormStorageObserver.load).toHaveBeenNthCalledWith(1, form);
+      expect(FormStorageObserver.prototype.load).toHaveBeenNthCalledWith(1, form);
 
       // No attempts are made to load data from `localStorage` during a _redundant_ observation. No errors are thrown.
       expect(() => formStorageObserver.observe(form)).not.toThrow();
-      expect(FormStorageObserver.load).toHaveBeenCalledTimes(1);
+      expect(FormStorageObserver.prototype.load).toHaveBeenCalledTimes(1);
     });
 
     it("Returns `true` if the received `form` was NOT already being observed (and `false` otherwise)", () => {
@@ -139,7 +165,7 @@ describe("Form Storage Observer (Class)", () => {
 
     it("Automatically clears a `form`'s data from `localStorage` IF the `automate` option says so", () => {
       const form = document.createElement("form");
-      vi.spyOn(FormStorageObserver, "clear");
+      vi.spyOn(FormStorageObserver.prototype, "clear");
 
       // No data is cleared by default, or when `automate` is `loading` or `neither`
       ([undefined, "loading", "neither"] as const).forEach((automate) => {
@@ -147,7 +173,7 @@ describe("Form Storage Observer (Class)", () => {
         formStorageObserver.observe(form);
         formStorageObserver.unobserve(form);
 
-        expect(FormStorageObserver.clear).not.toHaveBeenCalled();
+        expect(FormStorageObserver.prototype.clear).not.toHaveBeenCalled();
       });
 
       // Data is automatically cleared for newly unobserved forms when `automate` is `deletion` or `both`
@@ -156,28 +182,28 @@ describe("Form Storage Observer (Class)", () => {
         formStorageObserver.observe(form);
         formStorageObserver.unobserve(form);
 
-        expect(FormStorageObserver.clear).toHaveBeenCalledTimes(i + 1);
-        expect(FormStorageObserver.clear).toHaveBeenNthCalledWith(i + 1, form);
+        expect(FormStorageObserver.prototype.clear).toHaveBeenCalledTimes(i + 1);
+        expect(FormStorageObserver.prototype.clear).toHaveBeenNthCalledWith(i + 1, form);
       });
     });
 
     it("Does nothing with a `form` that isn't currently being observed", () => {
       const form = document.createElement("form");
       const formStorageObserver = new FormStorageObserver(types, { automate: "both" });
-      vi.spyOn(FormStorageObserver, "clear");
+      vi.spyOn(FormStorageObserver.prototype, "clear");
 
       // No errors are thrown, and no attempts are made to clear data from `localStorage`
       expect(() => formStorageObserver.unobserve(form)).not.toThrow();
-      expect(FormStorageObserver.clear).not.toHaveBeenCalled();
+      expect(FormStorageObserver.prototype.clear).not.toHaveBeenCalled();
 
       // Attempts are still made to clear data from `localStorage` if a form was "newly unobserved"
       formStorageObserver.observe(form);
       formStorageObserver.unobserve(form);
-      expect(FormStorageObserver.clear).toHaveBeenNthCalledWith(1, form);
+      expect(FormStorageObserver.prototype.clear).toHaveBeenNthCalledWith(1, form);
 
       // But _redundant_ calls still do nothing
       formStorageObserver.unobserve(form);
-      expect(FormStorageObserver.clear).toHaveBeenCalledTimes(1);
+      expect(FormStorageObserver.prototype.clear).toHaveBeenCalledTimes(1);
     });
 
     it("Returns `true` if the received `form` WAS already being observed (and `false` otherwise)", () => {
@@ -1294,36 +1320,3574 @@ describe("Form Storage Observer (Class)", () => {
         expect(() => FormStorageObserver.clear(screen.getByRole("form"))).not.toThrow();
       });
     });
+
+    describe("save (Static Method)", () => {
+      it("Only operates on `form`s", () => {
+        const div = document.createElement("div") as HTMLElement;
+        vi.spyOn(Assertions, "assertElementIsForm");
+
+        // Element-only Overload (Failure)
+        expect(() => FormStorageObserver.save(div as HTMLFormElement)).toThrow();
+        expect(Assertions.assertElementIsForm).toHaveBeenNthCalledWith(1, div);
+
+        // Element + `FieldName` Overload (Failure)
+        expect(() => FormStorageObserver.save(div as HTMLFormElement, fields.input.name)).toThrow();
+        expect(Assertions.assertElementIsForm).toHaveBeenNthCalledWith(2, div);
+        expect(Assertions.assertElementIsForm).toHaveBeenCalledTimes(2);
+
+        // Success on `HTMLFormElement`s
+        const form = document.createElement("form");
+        expect(() => FormStorageObserver.save(form)).not.toThrow();
+        expect(() => FormStorageObserver.save(form, fields.input.name)).not.toThrow();
+      });
+
+      // Note: This test is for the `HTMLFormElement`-only Overload
+      it("Saves all of a `form`'s data to `localStorage` based on scope (i.e., `name`s)", async () => {
+        const { primaryForm, secondaryForm } = renderForms();
+
+        /* -------------------- Setup -------------------- */
+        const data = {
+          input: faker.lorem.words(),
+          textarea: faker.lorem.paragraph(),
+          checkbox: true,
+          radio: "1",
+          select: "2",
+          multiselect: ["1", "3"],
+        } as const satisfies TestFormData;
+
+        const input = within(primaryForm).getByRole("textbox", { name: fields.input.name });
+        const textarea = within(primaryForm).getByRole("textbox", { name: fields.textarea.name });
+        const multiselect = within(primaryForm).getByRole("listbox", { name: fields.multiselect.name });
+
+        await userEvent.type(input, data.input);
+        await userEvent.type(textarea, data.textarea);
+        await userEvent.click(within(primaryForm).getByRole("checkbox", { name: fields.checkbox.name }));
+        await userEvent.click(within(primaryForm).getByRole("radio", { name: `${fields.radio.name}-${data.radio}` }));
+        await userEvent.selectOptions(within(primaryForm).getByRole("combobox"), data.select);
+        await userEvent.deselectOptions(multiselect, fields.multiselect.default);
+        await userEvent.selectOptions(multiselect, data.multiselect);
+
+        /* -------------------- Tests -------------------- */
+        FormStorageObserver.save(primaryForm);
+        (Object.keys(data) as Array<keyof TestFormData>).forEach((name) => {
+          expect(localStorage.getItem(getFieldKey(primaryForm.name, name))).toBe(JSON.stringify(data[name]));
+          expect(localStorage.getItem(getFieldKey(secondaryForm.name, name))).toBe(null);
+        });
+      });
+
+      // Note: This test is for the `HTMLFormElement` + `FieldName` Overload
+      it("Saves the specified field's `form` data to `localStorage` based on scope (i.e., `name`s)", () => {
+        const { primaryForm } = renderForms();
+
+        FormStorageObserver.save(primaryForm, fields.radio.name);
+        expect(localStorage.getItem(getFieldKey(primaryForm.name, fields.radio.name))).toBe(
+          JSON.stringify(fields.radio.default),
+        );
+        expect(localStorage).toHaveLength(1);
+
+        FormStorageObserver.save(primaryForm, fields.checkbox.name);
+        expect(localStorage.getItem(getFieldKey(primaryForm.name, fields.checkbox.name))).toBe(
+          JSON.stringify(fields.checkbox.default),
+        );
+        expect(localStorage).toHaveLength(2);
+      });
+
+      it("Uses the same field rules as the `FormStorageObserver`'s event listener", () => {
+        document.body.innerHTML = `
+          <form aria-label="Test Form">
+            <input name="password" type="password" value="secret" />
+            <input name="hidden" type="hidden" value="secret" />
+            <input name="card" autocomplete="cc-number" value="4242424242424242" />
+            <input name="ignored" data-fso-ignore value="ignored" />
+            <input name="radio" type="radio" value="1" data-fso-ignore checked />
+            <input name="radio" type="radio" value="2" data-fso-ignore />
+            <fieldset name="fieldset"></fieldset>
+            <output name="output">Output</output>
+            <input type="text" aria-label="Unnamed" value="unnamed" />
+          </form>
+        `;
+
+        const form = screen.getByRole<HTMLFormElement>("form");
+        FormStorageObserver.save(form);
+        FormStorageObserver.save(form, "missing-field");
+        FormStorageObserver.save(form, "");
+        expect(localStorage).toHaveLength(0);
+      });
+
+      it("Requires the provided `name` to match the `name` of the form field", () => {
+        const { primaryForm } = renderForms();
+        const input = within(primaryForm).getByRole<HTMLInputElement>("textbox", { name: fields.input.name });
+        input.id = "input-id";
+
+        expect(() => FormStorageObserver.save(primaryForm, input.id)).toThrow(
+          `Expected to find a field with name "${input.id}", but instead found a field with name "${input.name}".`,
+        );
+      });
+    });
   });
-});
 
-/* eslint-disable no-new */
-/* eslint-disable no-unreachable */
-(function runTypeOnlyTests() {
-  /*
-   * This early return statement allows our type-only tests to be validated by `ts-jest` WITHOUT us getting
-   * false positives for code coverage.
-   */
-  return;
-  const event1 = "beforeinput" satisfies keyof DocumentEventMap; // Correlates to `InputEvent`
-  const event2 = "click" satisfies keyof DocumentEventMap; // Correlates to `MouseEvent`
+  describe("Custom Storage Interactions", () => {
+    beforeEach(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
 
-  // Single Type
-  new FormStorageObserver(event1);
-  new FormStorageObserver(event1, {});
-  new FormStorageObserver(event1, { automate: "loading" });
-  new FormStorageObserver(event1, { useEventCapturing: true });
+    it("Saves form data to the storage backend specified by the `storage` option", async () => {
+      const storage = createMemoryStorageAdapter();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage });
+      const value = faker.lorem.words();
 
-  // Multiple Types
-  new FormStorageObserver([event1, event2]);
-  new FormStorageObserver([event1, event2], {});
-  new FormStorageObserver([event1, event2], { automate: undefined });
-  new FormStorageObserver([event1, event2], { useEventCapturing: undefined });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
 
-  new FormStorageObserver([event1, event2] as const);
-  new FormStorageObserver([event1, event2] as const, {});
-  new FormStorageObserver([event1, event2] as const, { automate: "deletion" });
-  new FormStorageObserver([event1, event2] as const, { useEventCapturing: false });
+      expect(storage.get(key)).toBe(JSON.stringify(value));
+      expect(localStorage).toHaveLength(0);
+    });
+
+    it("Loads and clears form data using the observer's own storage backend (Instance Methods)", () => {
+      const storage = createMemoryStorageAdapter();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, automate: "neither" });
+      const value = faker.lorem.words();
+
+      const { form, input, key } = renderSimpleForm();
+      storage.set(key, JSON.stringify(value));
+      localStorage.setItem(key, JSON.stringify("This value belongs to `localStorage`"));
+
+      // Loading (Synchronous Storage)
+      const report = { restored: [input.name], mismatched: [], skipped: [], missing: [] };
+      expect(formStorageObserver.load(form)).toStrictEqual(report);
+      expect(input).toHaveValue(value);
+
+      form.reset();
+      expect(formStorageObserver.load(form, input.name)).toStrictEqual(report);
+      expect(input).toHaveValue(value);
+
+      // Clearing (Synchronous Storage)
+      expect(formStorageObserver.clear(form, input.name)).toBeUndefined();
+      expect(storage.get(key)).toBe(null);
+
+      storage.set(key, JSON.stringify(value));
+      expect(formStorageObserver.clear(form)).toBeUndefined();
+      expect(storage.get(key)).toBe(null);
+
+      // `localStorage` was never touched
+      expect(localStorage.getItem(key)).not.toBe(null);
+    });
+
+    it("Automates data loading/deletion with the observer's own storage backend", () => {
+      const storage = createMemoryStorageAdapter();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, automate: "both" });
+      const value = faker.lorem.words();
+
+      const { form, input, key } = renderSimpleForm();
+      storage.set(key, JSON.stringify(value));
+
+      formStorageObserver.observe(form);
+      expect(input).toHaveValue(value);
+
+      formStorageObserver.unobserve(form);
+      expect(storage.get(key)).toBe(null);
+    });
+
+    it("Runs asynchronously when the storage backend is asynchronous", async () => {
+      const memory = createMemoryStorageAdapter();
+      const storage: FormStorageAdapter = {
+        get: async (key) => memory.get(key),
+        set: async (key, value) => memory.set(key, value),
+        remove: async (key) => memory.remove(key),
+        keys: async () => memory.keys(),
+      };
+
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, automate: "neither" });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      // Saving
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
+      expect(memory.get(key)).toBe(JSON.stringify(value));
+
+      // Loading
+      form.reset();
+      const pendingLoad = formStorageObserver.load(form);
+      expect(pendingLoad).toEqual(expect.any(Promise));
+      expect(input).not.toHaveValue();
+
+      await pendingLoad;
+      expect(input).toHaveValue(value);
+
+      // Clearing
+      const pendingClear = formStorageObserver.clear(form);
+      expect(pendingClear).toEqual(expect.any(Promise));
+
+      await pendingClear;
+      expect(memory.get(key)).toBe(null);
+    });
+
+    describe("Storage Adapters", () => {
+      const adapters = [
+        ["localStorage", createLocalStorageAdapter],
+        ["sessionStorage", createSessionStorageAdapter],
+        ["memory", createMemoryStorageAdapter],
+        ["IndexedDB", () => createIndexedDBStorageAdapter({ database: faker.string.uuid() })],
+      ] as const;
+
+      it.each(adapters)("Supports the `%s` storage backend", async (_, createAdapter) => {
+        const adapter = createAdapter();
+        const entries = { first: faker.lorem.word(), second: faker.lorem.words() } as const;
+
+        expect(await adapter.get("first")).toBe(null);
+        expect(await adapter.keys()).toStrictEqual([]);
+
+        await adapter.set("first", entries.first);
+        await adapter.set("second", entries.second);
+        expect(await adapter.get("first")).toBe(entries.first);
+        expect(await adapter.get("second")).toBe(entries.second);
+        expect((await adapter.keys()).sort()).toStrictEqual(Object.keys(entries).sort());
+
+        await adapter.remove("first");
+        expect(await adapter.get("first")).toBe(null);
+        expect(await adapter.keys()).toStrictEqual(["second"]);
+      });
+
+      it("Uses the correct Web Storage objects", () => {
+        createLocalStorageAdapter().set("local", "1");
+        createSessionStorageAdapter().set("session", "2");
+
+        expect(localStorage.getItem("local")).toBe("1");
+        expect(localStorage.getItem("session")).toBe(null);
+        expect(sessionStorage.getItem("session")).toBe("2");
+        expect(sessionStorage.getItem("local")).toBe(null);
+      });
+
+      it("Shares data between `IndexedDB` adapters that use the same database and store", async () => {
+        const database = faker.string.uuid();
+        await createIndexedDBStorageAdapter({ database }).set("key", "value");
+
+        expect(await createIndexedDBStorageAdapter({ database }).get("key")).toBe("value");
+        expect(await createIndexedDBStorageAdapter({ database: faker.string.uuid() }).get("key")).toBe(null);
+      });
+
+      it("Creates missing object stores in `IndexedDB` databases that already exist", async () => {
+        const database = faker.string.uuid();
+        const first = createIndexedDBStorageAdapter({ database, store: "first" });
+        const second = createIndexedDBStorageAdapter({ database, store: "second" });
+
+        await first.set("key", "1");
+        await second.set("key", "2");
+        expect(await second.get("key")).toBe("2");
+        expect(await first.get("key")).toBe("1");
+
+        await first.set("key", "3");
+        expect(await createIndexedDBStorageAdapter({ database, store: "third" }).get("key")).toBe(null);
+        expect(await first.get("key")).toBe("3");
+        expect(await second.get("key")).toBe("2");
+      });
+
+      it("Uses a default database and store for `IndexedDB` when none are specified", async () => {
+        await createIndexedDBStorageAdapter().set("key", "value");
+        expect(
+          await createIndexedDBStorageAdapter({ database: "form-observer", store: "form-storage" }).get("key"),
+        ).toBe("value");
+      });
+
+      it("Rejects with the error that `IndexedDB` produces when an operation fails", async () => {
+        const error = new DOMException("Something went wrong", "UnknownError");
+        const request = { error } as IDBOpenDBRequest;
+        vi.spyOn(indexedDB, "open").mockReturnValue(request);
+
+        const pendingOperation = createIndexedDBStorageAdapter().get("key");
+        request.onerror?.(new Event("error"));
+        await expect(pendingOperation).rejects.toBe(error);
+      });
+    });
+  });
+
+  describe("save (Method)", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Immediately saves form data to the observer's own storage backend", async () => {
+      vi.useFakeTimers();
+      const storage = createMemoryStorageAdapter();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, debounce: 100 });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      // Entire Form
+      input.value = "value";
+      expect(formStorageObserver.save(form)).toBeUndefined();
+      expect(storage.get(key)).toBe(JSON.stringify("value"));
+      expect(localStorage.getItem(key)).toBe(null);
+
+      // Single Field (Replaces any pending writes)
+      input.value = "pending-value";
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      input.value = "saved-value";
+      formStorageObserver.save(form, input.name);
+
+      vi.advanceTimersByTime(100);
+      vi.useRealTimers();
+      expect(storage.get(key)).toBe(JSON.stringify("saved-value"));
+      formStorageObserver.disconnect();
+    });
+
+    it("Runs asynchronously when the storage backend (or encryption) is asynchronous", async () => {
+      const encryptionKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ]);
+
+      const formStorageObserver = new FormStorageObserver(types[0], { encryptionKey, automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+      input.value = faker.lorem.words();
+
+      const promise = formStorageObserver.save(form, input.name);
+      expect(promise).toEqual(expect.any(Promise));
+      await promise;
+      expect(JSON.parse(localStorage.getItem(key) as string)).toHaveProperty("encrypted");
+
+      // Loading the saved value proves that it was properly encrypted
+      const { value } = input;
+      form.reset();
+      await formStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+    });
+
+    it("Notifies other browsing contexts about the values that it saves when `sync` is enabled", async () => {
+      const otherTab = new BroadcastChannel("form-storage-observer");
+      const onmessage = vi.fn();
+      otherTab.onmessage = onmessage;
+
+      const formStorageObserver = new FormStorageObserver(types[0], { sync: true, automate: "neither" });
+      const { form, input } = renderSimpleForm();
+      const passwordInput = form.appendChild(document.createElement("input"));
+      passwordInput.type = "password";
+      passwordInput.name = "password";
+
+      formStorageObserver.observe(form);
+      formStorageObserver.save(form);
+      await vi.waitFor(() => expect(onmessage).toHaveBeenCalledTimes(1)); // Unsaved fields are not broadcast
+      expect(onmessage.mock.lastCall?.[0]).toHaveProperty("data", { form: form.name, name: input.name });
+
+      formStorageObserver.disconnect();
+      otherTab.close();
+    });
+  });
+
+  describe("Data Expiration", () => {
+    const expiresIn = 60_000;
+    const now = Date.now();
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.spyOn(Date, "now").mockReturnValue(now);
+    });
+
+    it("Stores values with an expiration date when the `expiresIn` option is provided", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { expiresIn });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
+      expect(JSON.parse(localStorage.getItem(key) as string)).toStrictEqual({
+        fso: 1,
+        value,
+        expires: now + expiresIn,
+      });
+    });
+
+    it("Ignores (and removes) expired values when loading data", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { expiresIn, automate: "neither" });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      // Unexpired Values
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value, expires: now + 1 }));
+      formStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+
+      form.reset();
+      FormStorageObserver.load(form, input.name);
+      expect(input).toHaveValue(value);
+
+      // Expired Values
+      form.reset();
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value, expires: now }));
+      formStorageObserver.load(form);
+      expect(input).not.toHaveValue();
+      expect(localStorage.getItem(key)).toBe(null);
+
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value, expires: now - 1 }));
+      FormStorageObserver.load(form, input.name);
+      expect(input).not.toHaveValue();
+      expect(localStorage.getItem(key)).toBe(null);
+    });
+
+    it("Continues to load values that were stored without an expiration date", () => {
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      // Raw JSON
+      localStorage.setItem(key, JSON.stringify(value));
+      FormStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+
+      // Envelopes without Metadata
+      form.reset();
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value }));
+      FormStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+    });
+
+    it("Removes ALL of the expired form data from storage when `prune` is called", async () => {
+      const entries = {
+        "form:first:expired": JSON.stringify({ fso: 1, value: "1", expires: now - 1 }),
+        "form:second:expired": JSON.stringify({ fso: 1, value: ["2"], expires: now }),
+        "form:first:fresh": JSON.stringify({ fso: 1, value: "3", expires: now + 1 }),
+        "form:second:permanent": JSON.stringify(true),
+        "form:third:corrupted": "{",
+        "unrelated-key": JSON.stringify({ fso: 1, value: "4", expires: now - 1 }),
+      };
+      const expiredKeys = ["form:first:expired", "form:second:expired"];
+
+      // Static Method (`localStorage`)
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+      expect(FormStorageObserver.prune()).toBeUndefined();
+      Object.keys(entries).forEach((key) => {
+        expect(localStorage.getItem(key)).toBe(expiredKeys.includes(key) ? null : entries[key as keyof typeof entries]);
+      });
+
+      // Instance Method (Asynchronous Storage)
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      await Promise.all(Object.entries(entries).map(([key, value]) => storage.set(key, value)));
+
+      const formStorageObserver = new FormStorageObserver(types[0], { storage });
+      const pendingPrune = formStorageObserver.prune();
+      expect(pendingPrune).toEqual(expect.any(Promise));
+
+      await pendingPrune;
+      expect((await storage.keys()).sort()).toStrictEqual(
+        Object.keys(entries)
+          .filter((key) => !expiredKeys.includes(key))
+          .sort(),
+      );
+    });
+  });
+
+  describe("Data Encryption", () => {
+    let encryptionKey: CryptoKey;
+
+    beforeAll(async () => {
+      encryptionKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+    });
+
+    beforeEach(() => localStorage.clear());
+
+    it("Encrypts every value that it stores when the `encryptionKey` option is provided", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { encryptionKey, expiresIn: 60_000 });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
+      await vi.waitFor(() => expect(localStorage.getItem(key)).not.toBe(null));
+
+      const storedValueString = localStorage.getItem(key) as string;
+      expect(storedValueString).not.toContain(value);
+      expect(JSON.parse(storedValueString)).toStrictEqual({
+        fso: 1,
+        expires: expect.any(Number),
+        encrypted: { iv: expect.any(String), data: expect.any(String) },
+      });
+    });
+
+    it("Decrypts (and loads) encrypted values asynchronously", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { encryptionKey, automate: "neither" });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      // Save an encrypted value
+      formStorageObserver.observe(form);
+      input.value = value;
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      await vi.waitFor(() => expect(localStorage.getItem(key)).not.toBe(null));
+
+      // Load the encrypted value
+      form.reset();
+      const pendingLoad = formStorageObserver.load(form);
+      expect(pendingLoad).toEqual(expect.any(Promise));
+      expect(input).not.toHaveValue();
+
+      await pendingLoad;
+      expect(input).toHaveValue(value);
+
+      // Unencrypted values can still be loaded
+      form.reset();
+      localStorage.setItem(key, JSON.stringify(value));
+      expect(formStorageObserver.load(form)).toStrictEqual({
+        restored: [input.name],
+        mismatched: [],
+        skipped: [],
+        missing: [],
+      });
+      expect(input).toHaveValue(value);
+    });
+
+    it("Refuses to load encrypted values when no `encryptionKey` is available", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { encryptionKey, automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+
+      formStorageObserver.observe(form);
+      input.value = faker.lorem.words();
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      await vi.waitFor(() => expect(localStorage.getItem(key)).not.toBe(null));
+
+      form.reset();
+      expect(FormStorageObserver.load(form)).toStrictEqual({
+        restored: [],
+        mismatched: [],
+        skipped: [input.name],
+        missing: [],
+      });
+      expect(input).not.toHaveValue();
+    });
+
+    it("Skips (and reports) entries that can't be decrypted with the current `encryptionKey`", async () => {
+      const otherKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { encryptionKey, automate: "neither" });
+      const rotatedObserver = new FormStorageObserver(types[0], {
+        encryptionKey: otherKey,
+        automate: "neither",
+        onError,
+      });
+
+      const { form, input: input1 } = renderSimpleForm();
+      const input2 = form.appendChild(document.createElement("input"));
+      input2.name = "second";
+      input1.value = faker.lorem.words();
+      input2.value = faker.lorem.words();
+
+      // Only the second field is encrypted with the new key
+      await formStorageObserver.save(form, input1.name);
+      await rotatedObserver.save(form, input2.name);
+      const value2 = input2.value;
+
+      form.reset();
+      await expect(rotatedObserver.load(form)).resolves.toStrictEqual({
+        restored: [input2.name],
+        mismatched: [],
+        skipped: [input1.name],
+        missing: [],
+      });
+      expect(input1).not.toHaveValue();
+      expect(input2).toHaveValue(value2);
+      expect(onError).toHaveBeenCalledOnce();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: "OperationError" }), form, input1.name);
+
+      // Without an `onError` option, the entry is still skipped quietly
+      form.reset();
+      await expect(
+        new FormStorageObserver(types[0], { encryptionKey: otherKey }).load(form, input1.name),
+      ).resolves.toStrictEqual({ restored: [], mismatched: [], skipped: [input1.name], missing: [] });
+    });
+  });
+
+  describe("Data Versioning", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Tags every stored value with the `version` option", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { version: 3 });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
+      expect(JSON.parse(localStorage.getItem(key) as string)).toStrictEqual({ fso: 1, value, version: 3 });
+    });
+
+    it("Loads values belonging to the current `version` without migrating them", () => {
+      const migrations = { 2: vi.fn() };
+      const formStorageObserver = new FormStorageObserver(types[0], { version: 3, migrations, automate: "neither" });
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value, version: 3 }));
+      formStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+      expect(migrations[2]).not.toHaveBeenCalled();
+    });
+
+    it("Migrates outdated values to the current `version` before loading them", () => {
+      const migrations = { 0: vi.fn((v: unknown) => `${v}-1`), 1: vi.fn((v: unknown) => `${v}-2`) };
+      const formStorageObserver = new FormStorageObserver(types[0], { version: 2, migrations, automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+
+      // Unversioned values are treated as version `0`
+      localStorage.setItem(key, JSON.stringify("value"));
+      formStorageObserver.load(form);
+
+      expect(migrations[0]).toHaveBeenNthCalledWith(1, "value", input.name);
+      expect(migrations[1]).toHaveBeenNthCalledWith(1, "value-1", input.name);
+      expect(input).toHaveValue("value-1-2");
+
+      // Migrated values are written back to storage
+      expect(JSON.parse(localStorage.getItem(key) as string)).toStrictEqual({ fso: 1, value: "value-1-2", version: 2 });
+
+      // Versioned values only run the migrations that they need
+      form.reset();
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value: "other", version: 1 }));
+      formStorageObserver.load(form, input.name);
+
+      expect(migrations[0]).toHaveBeenCalledTimes(1);
+      expect(migrations[1]).toHaveBeenNthCalledWith(2, "other", input.name);
+      expect(input).toHaveValue("other-2");
+    });
+
+    it("Preserves the expiration dates of migrated values", () => {
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now);
+
+      const migrations = { 0: (v: unknown) => `${v}-1` };
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        version: 1,
+        migrations,
+        expiresIn: 60_000,
+        automate: "neither",
+      });
+      const { form, input, key } = renderSimpleForm();
+
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value: "value", expires: now + 1 }));
+      formStorageObserver.load(form);
+
+      expect(input).toHaveValue("value-1");
+      expect(JSON.parse(localStorage.getItem(key) as string)).toStrictEqual({
+        fso: 1,
+        value: "value-1",
+        expires: now + 1,
+        version: 1,
+      });
+
+      // Values that were stored without an expiration date are given a new one
+      form.reset();
+      localStorage.setItem(key, JSON.stringify("value"));
+      formStorageObserver.load(form, input.name);
+      expect(JSON.parse(localStorage.getItem(key) as string)).toStrictEqual({
+        fso: 1,
+        value: "value-1",
+        expires: now + 60_000,
+        version: 1,
+      });
+    });
+
+    it("Discards (and reports) values that cannot be migrated to the current `version`", () => {
+      const onDiscard = vi.fn();
+      const migrations = { 1: (v: unknown) => v };
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        version: 2,
+        migrations,
+        onDiscard,
+        automate: "neither",
+      });
+      const { form, input, key } = renderSimpleForm();
+
+      // Missing Migration
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value: faker.lorem.word(), version: 0 }));
+      formStorageObserver.load(form);
+
+      expect(input).not.toHaveValue();
+      expect(localStorage.getItem(key)).toBe(null);
+      expect(onDiscard).toHaveBeenNthCalledWith(1, form, input.name, 0);
+
+      // Newer Version
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value: faker.lorem.word(), version: 3 }));
+      formStorageObserver.load(form, input.name);
+
+      expect(input).not.toHaveValue();
+      expect(localStorage.getItem(key)).toBe(null);
+      expect(onDiscard).toHaveBeenNthCalledWith(2, form, input.name, 3);
+
+      // Discarded values don't require an `onDiscard` callback
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value: faker.lorem.word(), version: 3 }));
+      new FormStorageObserver(types[0], { version: 2 }).load(form);
+      expect(localStorage.getItem(key)).toBe(null);
+      expect(onDiscard).toHaveBeenCalledTimes(2);
+    });
+
+    it("Ignores versions when the `version` option is omitted", () => {
+      const value = faker.lorem.words();
+      const { form, input, key } = renderSimpleForm();
+
+      localStorage.setItem(key, JSON.stringify({ fso: 1, value, version: 7 }));
+      FormStorageObserver.load(form);
+      expect(input).toHaveValue(value);
+    });
+  });
+
+  describe("Cross-Tab Synchronization", () => {
+    /** A `BroadcastChannel` that acts as another browsing context (e.g., another tab) */
+    let otherTab: BroadcastChannel;
+
+    beforeEach(() => {
+      localStorage.clear();
+      otherTab = new BroadcastChannel("form-storage-observer");
+      return () => otherTab.close();
+    });
+
+    /** Waits for the messages that were posted to the `BroadcastChannel`s to be delivered */
+    function waitForMessages(): Promise<void> {
+      return new Promise((resolve) => {
+        setTimeout(resolve, 10);
+      });
+    }
+
+    it("Notifies other browsing contexts whenever a field's value is saved", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { sync: true });
+      const { form, input } = renderSimpleForm();
+      const unnamedInput = form.appendChild(document.createElement("input"));
+
+      const onmessage = vi.fn();
+      otherTab.onmessage = onmessage;
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${faker.lorem.word()}{Tab}`);
+      await vi.waitFor(() => expect(onmessage).toHaveBeenCalledTimes(1));
+      expect(onmessage.mock.lastCall?.[0]).toHaveProperty("data", { form: form.name, name: input.name });
+
+      // Unnamed fields are not stored, so they are not broadcast
+      await userEvent.type(unnamedInput, `${faker.lorem.word()}{Tab}`);
+      await waitForMessages();
+      expect(onmessage).toHaveBeenCalledTimes(1);
+      formStorageObserver.disconnect();
+    });
+
+    it("Loads the values saved by other browsing contexts into the matching observed forms", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { sync: true, automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+
+      const otherForm = document.body.appendChild(document.createElement("form"));
+      otherForm.name = "other-form";
+      const otherInput = otherForm.appendChild(document.createElement("input"));
+      otherInput.name = input.name;
+
+      formStorageObserver.observe(form);
+      formStorageObserver.observe(otherForm);
+
+      const value = faker.lorem.words();
+      localStorage.setItem(key, JSON.stringify(value));
+      otherTab.postMessage({ form: form.name, name: input.name });
+
+      await vi.waitFor(() => expect(input).toHaveValue(value));
+      expect(otherInput).not.toHaveValue();
+      formStorageObserver.disconnect();
+    });
+
+    it("Does not overwrite the focused field unless the `syncConflicts` option says so", async () => {
+      const { form, input, key } = renderSimpleForm();
+      const value = faker.lorem.words();
+      localStorage.setItem(key, JSON.stringify(value));
+      input.focus();
+
+      // Preserve Focused Field (Default)
+      const preservingObserver = new FormStorageObserver(types[0], { sync: true, automate: "neither" });
+      preservingObserver.observe(form);
+      otherTab.postMessage({ form: form.name, name: input.name });
+
+      await waitForMessages();
+      expect(input).not.toHaveValue();
+      preservingObserver.disconnect();
+
+      // Overwrite Focused Field
+      const overwritingObserver = new FormStorageObserver(types[0], {
+        sync: true,
+        syncConflicts: "overwrite",
+        automate: "neither",
+      });
+
+      overwritingObserver.observe(form);
+      otherTab.postMessage({ form: form.name, name: input.name });
+      await vi.waitFor(() => expect(input).toHaveValue(value));
+      overwritingObserver.disconnect();
+    });
+
+    it("Stops synchronizing forms once they are unobserved", async () => {
+      const close = vi.spyOn(BroadcastChannel.prototype, "close");
+      const formStorageObserver = new FormStorageObserver(types[0], { sync: true, automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+      const otherForm = document.body.appendChild(document.createElement("form"));
+
+      formStorageObserver.observe(form);
+      formStorageObserver.observe(otherForm);
+
+      // The channel stays open as long as any forms are being synchronized
+      formStorageObserver.unobserve(otherForm);
+      expect(close).not.toHaveBeenCalled();
+
+      formStorageObserver.unobserve(form);
+      expect(close).toHaveBeenCalledTimes(1);
+
+      localStorage.setItem(key, JSON.stringify(faker.lorem.words()));
+      otherTab.postMessage({ form: form.name, name: input.name });
+      await waitForMessages();
+      expect(input).not.toHaveValue();
+    });
+
+    it("Does not synchronize forms by default", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      localStorage.setItem(key, JSON.stringify(faker.lorem.words()));
+      otherTab.postMessage({ form: form.name, name: input.name });
+      await waitForMessages();
+      expect(input).not.toHaveValue();
+    });
+  });
+
+  describe("Delayed Writes", () => {
+    const delay = 500;
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.useFakeTimers();
+      return () => vi.useRealTimers();
+    });
+
+    /** Updates the `input`'s value and emits the event that the tested observers respond to */
+    function changeValue(input: HTMLInputElement, value: string): void {
+      input.value = value; // eslint-disable-line no-param-reassign -- This helper is responsible for updating the field
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+    }
+
+    it("Coalesces the writes of each field until it stops emitting events when the `debounce` option is used", () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: delay, throttle: delay / 5 });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      changeValue(input, "1");
+      vi.advanceTimersByTime(delay - 1);
+      changeValue(input, "2");
+      vi.advanceTimersByTime(delay - 1);
+      changeValue(input, "3");
+      expect(setItem).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(delay);
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("3"));
+      formStorageObserver.disconnect();
+    });
+
+    it("Limits how often each field's value is written when the `throttle` option is used", () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      const formStorageObserver = new FormStorageObserver(types[0], { throttle: delay });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      // The first value is written immediately
+      changeValue(input, "1");
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("1"));
+
+      // Only the latest value is written at the end of the interval
+      changeValue(input, "2");
+      changeValue(input, "3");
+      vi.advanceTimersByTime(delay);
+      expect(setItem).toHaveBeenCalledTimes(2);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("3"));
+
+      // Values that arrive right after a trailing write wait for the end of the next interval
+      changeValue(input, "4");
+      expect(setItem).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(delay - 1);
+      expect(setItem).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(1);
+      expect(setItem).toHaveBeenCalledTimes(3);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("4"));
+
+      // Nothing is written at the end of an interval that had no new values
+      vi.advanceTimersByTime(delay);
+      expect(setItem).toHaveBeenCalledTimes(3);
+
+      // Afterwards, the next value starts a new interval
+      changeValue(input, "5");
+      expect(setItem).toHaveBeenCalledTimes(4);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("5"));
+      formStorageObserver.disconnect();
+    });
+
+    it("Immediately writes all of the pending values when `flush` is called", async () => {
+      const { form, input, key } = renderSimpleForm();
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: delay });
+      formStorageObserver.observe(form);
+      expect(formStorageObserver.flush()).toBeUndefined();
+
+      const otherInput = form.appendChild(document.createElement("input"));
+      otherInput.name = "other-textbox";
+
+      changeValue(input, "value");
+      changeValue(otherInput, "other-value");
+      expect(formStorageObserver.flush()).toBeUndefined();
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("value"));
+      expect(localStorage.getItem(`form:${form.name}:${otherInput.name}`)).toBe(JSON.stringify("other-value"));
+
+      // Flushed values are not written again
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      vi.advanceTimersByTime(delay);
+      expect(setItem).not.toHaveBeenCalled();
+
+      // Asynchronous Writes
+      const storage = createMemoryStorageAdapter();
+      const set = vi.spyOn(storage, "set").mockImplementation(() => Promise.resolve());
+      const asyncObserver = new FormStorageObserver(types[0], { debounce: delay, storage });
+      formStorageObserver.disconnect();
+      asyncObserver.observe(form);
+
+      changeValue(input, "async-value");
+      const flushed = asyncObserver.flush();
+      expect(flushed).toEqual(expect.any(Promise));
+      await expect(flushed).resolves.toBeUndefined();
+      expect(set).toHaveBeenCalledWith(key, JSON.stringify("async-value"));
+      asyncObserver.disconnect();
+    });
+
+    it("Flushes the pending values when the page is hidden", () => {
+      const { form, input, key } = renderSimpleForm();
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: delay });
+      formStorageObserver.observe(form);
+
+      // `visibilitychange`
+      const visibilityState = vi.spyOn(document, "visibilityState", "get").mockReturnValue("visible");
+      changeValue(input, "1");
+      document.dispatchEvent(new Event("visibilitychange"));
+      expect(localStorage.getItem(key)).toBe(null);
+
+      visibilityState.mockReturnValue("hidden");
+      document.dispatchEvent(new Event("visibilitychange"));
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("1"));
+
+      // `pagehide`
+      changeValue(input, "2");
+      window.dispatchEvent(new Event("pagehide"));
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("2"));
+
+      // `freeze`
+      changeValue(input, "3");
+      document.dispatchEvent(new Event("freeze"));
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("3"));
+      formStorageObserver.disconnect();
+    });
+
+    it("Flushes the pending values of a form when the form is unobserved", () => {
+      const { form, input, key } = renderSimpleForm();
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: delay });
+      const removeEventListener = vi.spyOn(window, "removeEventListener");
+
+      const otherForm = document.body.appendChild(document.createElement("form"));
+      const otherInput = otherForm.appendChild(document.createElement("input"));
+      otherInput.name = "other";
+      formStorageObserver.observe(form);
+      formStorageObserver.observe(otherForm);
+
+      changeValue(input, "value");
+      changeValue(otherInput, "other-value");
+      formStorageObserver.unobserve(form);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("value"));
+      expect(localStorage.getItem(`form:global-scope:${otherInput.name}`)).toBe(null); // Other forms keep waiting
+      expect(removeEventListener).not.toHaveBeenCalledWith("pagehide", expect.anything());
+
+      // The page lifecycle listeners are removed once nothing is pending
+      formStorageObserver.disconnect();
+      expect(localStorage.getItem(`form:global-scope:${otherInput.name}`)).toBe(JSON.stringify("other-value"));
+      expect(removeEventListener).toHaveBeenCalledWith("pagehide", expect.any(Function));
+
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      vi.advanceTimersByTime(delay);
+      expect(setItem).not.toHaveBeenCalled();
+    });
+
+    it("Discards the pending value of a field when its data is cleared", () => {
+      const { form, input, key } = renderSimpleForm();
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: delay, automate: "deletion" });
+      formStorageObserver.observe(form);
+
+      changeValue(input, "value");
+      formStorageObserver.unobserve(form);
+      vi.advanceTimersByTime(delay);
+      expect(localStorage.getItem(key)).toBe(null);
+    });
+  });
+
+  describe("Field Rules", () => {
+    beforeEach(() => localStorage.clear());
+
+    /** Renders a `form` with the provided textboxes (described by their attributes) and returns the textboxes */
+    function renderTextboxes(...textboxes: string[]) {
+      document.body.innerHTML = `
+        <form name="rules-form" aria-label="Test Form">
+          ${textboxes.map((attributes) => `<input type="text" ${attributes} />`).join("")}
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const inputs = screen.getAllByRole<HTMLInputElement>("textbox");
+      return { form, inputs };
+    }
+
+    /** Returns the expected result of {@link persistFields} when only the provided `inputs` are persisted */
+    function persisted(inputs: HTMLInputElement[]) {
+      return { saved: inputs, loaded: inputs };
+    }
+
+    /** Determines which of the `inputs` have their data saved and loaded by the provided `observer` */
+    async function persistFields(
+      observer: InstanceType<typeof FormStorageObserver>,
+      inputs: HTMLInputElement[],
+    ): Promise<{ saved: HTMLInputElement[]; loaded: HTMLInputElement[] }> {
+      const form = inputs[0].form as HTMLFormElement;
+      localStorage.clear();
+      observer.observe(form);
+
+      // Saving
+      const values = inputs.map(() => faker.string.alphanumeric(8));
+      for (let i = 0; i < inputs.length; i++) {
+        await userEvent.clear(inputs[i]);
+        await userEvent.type(inputs[i], `${values[i]}{Tab}`);
+      }
+      const saved = inputs.filter((input, i) => {
+        return localStorage.getItem(`form:${form.name}:${input.name}`) === JSON.stringify(values[i]);
+      });
+
+      // Loading
+      form.reset();
+      inputs.forEach((input) => localStorage.setItem(`form:${form.name}:${input.name}`, JSON.stringify("loaded")));
+      observer.load(form);
+      const loaded = inputs.filter((input) => input.value === "loaded");
+
+      observer.disconnect();
+      return { saved, loaded };
+    }
+
+    it("Ignores fields that have (or belong to an element that has) the `data-fso-ignore` attribute", async () => {
+      document.body.innerHTML = `
+        <form name="rules-form" aria-label="Test Form">
+          <input name="kept" type="text" />
+          <input name="ignored" type="text" data-fso-ignore />
+          <fieldset data-fso-ignore><input name="ignored-group-member" type="text" /></fieldset>
+        </form>
+      `;
+
+      const inputs = screen.getAllByRole<HTMLInputElement>("textbox");
+      expect(await persistFields(new FormStorageObserver(types[0]), inputs)).toStrictEqual(persisted([inputs[0]]));
+    });
+
+    it("Ignores fields with sensitive `autocomplete` tokens", async () => {
+      const { inputs } = renderTextboxes(
+        'name="email" autocomplete="email"',
+        'name="card" autocomplete="billing CC-Number"',
+        'name="csc" autocomplete="cc-csc"',
+        'name="code" autocomplete="one-time-code"',
+      );
+
+      expect(await persistFields(new FormStorageObserver(types[0]), inputs)).toStrictEqual(persisted([inputs[0]]));
+
+      // Static methods honor the `autocomplete` tokens too
+      localStorage.setItem(`form:rules-form:${inputs[1].name}`, JSON.stringify("loaded"));
+      FormStorageObserver.load(inputs[1].form as HTMLFormElement, inputs[1].name);
+      expect(inputs[1]).not.toHaveValue();
+    });
+
+    it("Only persists the fields matching the `include` rule(s) when they are provided", async () => {
+      const { inputs } = renderTextboxes('name="one"', 'name="two" class="keep"', 'name="three"', 'name="four"');
+      expect(await persistFields(new FormStorageObserver(types[0], { include: "one" }), inputs)).toStrictEqual(
+        persisted([inputs[0]]),
+      );
+
+      const include = ["one", { selector: ".keep" }, (field: FormField) => field.name === "three"];
+      const expected = inputs.slice(0, 3);
+      expect(await persistFields(new FormStorageObserver(types[0], { include }), inputs)).toStrictEqual(
+        persisted(expected),
+      );
+    });
+
+    it("Never persists the fields matching the `exclude` rule(s)", async () => {
+      const { inputs } = renderTextboxes('name="one"', 'name="two" class="skip"', 'name="three"', 'name="four"');
+      const expected = inputs.slice(1);
+      expect(await persistFields(new FormStorageObserver(types[0], { exclude: "one" }), inputs)).toStrictEqual(
+        persisted(expected),
+      );
+
+      const exclude = ["one", { selector: ".skip" }, (field: FormField) => field.name === "three"];
+      expect(await persistFields(new FormStorageObserver(types[0], { exclude }), inputs)).toStrictEqual(
+        persisted([inputs[3]]),
+      );
+
+      // Exclusions take precedence over inclusions
+      const observer = new FormStorageObserver(types[0], { include: ["one", "two"], exclude: "two" });
+      expect(await persistFields(observer, inputs)).toStrictEqual(persisted([inputs[0]]));
+    });
+
+    it("Applies the rules of a radio button group's first radio button to the whole group when loading", () => {
+      document.body.innerHTML = `
+        <form name="rules-form" aria-label="Test Form">
+          <input name="radio" type="radio" value="1" data-fso-ignore />
+          <input name="radio" type="radio" value="2" data-fso-ignore />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      localStorage.setItem(`form:${form.name}:radio`, JSON.stringify("2"));
+      FormStorageObserver.load(form);
+      expect(screen.getAllByRole("radio").every((radio) => !(radio as HTMLInputElement).checked)).toBe(true);
+    });
+  });
+
+  describe("Record Format", () => {
+    const recordKey = "form-record:simple-form";
+
+    beforeEach(() => localStorage.clear());
+
+    /** Renders the simple form with an additional textbox (and returns references to the form's textboxes) */
+    function renderRecordForm() {
+      const { form, input } = renderSimpleForm();
+      const otherInput = form.appendChild(document.createElement("input"));
+      otherInput.name = "other-textbox";
+      return { form, input, otherInput };
+    }
+
+    it("Stores ALL of a form's values in a single record when the `format` option is `record`", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record" });
+      const { form, input, otherInput } = renderRecordForm();
+      formStorageObserver.observe(form);
+
+      await userEvent.type(input, "value{Tab}");
+      await userEvent.type(otherInput, "other-value{Tab}");
+
+      expect(localStorage).toHaveLength(1);
+      expect(JSON.parse(localStorage.getItem(recordKey) as string)).toStrictEqual({
+        [input.name]: "value",
+        [otherInput.name]: "other-value",
+      });
+
+      // Metadata is stored alongside each entry
+      localStorage.clear();
+      const expiringObserver = new FormStorageObserver(types[0], { format: "record", version: 1 });
+      formStorageObserver.disconnect();
+      expiringObserver.observe(form);
+
+      await userEvent.type(input, "-new{Tab}");
+      expect(JSON.parse(localStorage.getItem(recordKey) as string)).toStrictEqual({
+        [input.name]: { fso: 1, value: "value-new", version: 1 },
+      });
+      expiringObserver.disconnect();
+    });
+
+    it("Loads a form's values from its record", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", automate: "neither" });
+      const { form, input, otherInput } = renderRecordForm();
+
+      localStorage.setItem(recordKey, JSON.stringify({ [input.name]: "value", [otherInput.name]: "other-value" }));
+      formStorageObserver.load(form, input.name);
+      expect(input).toHaveValue("value");
+      expect(otherInput).not.toHaveValue();
+
+      formStorageObserver.load(form);
+      expect(otherInput).toHaveValue("other-value");
+
+      // Missing Entries and Records
+      form.reset();
+      localStorage.setItem(recordKey, JSON.stringify({ [otherInput.name]: "other-value" }));
+      formStorageObserver.load(form, input.name);
+      expect(input).not.toHaveValue();
+
+      localStorage.clear();
+      formStorageObserver.load(form);
+      expect(otherInput).not.toHaveValue();
+    });
+
+    it("Removes expired entries from the record when loading data", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", automate: "neither" });
+      const { form, input, otherInput } = renderRecordForm();
+
+      const expiredEntry = { fso: 1, value: "expired", expires: Date.now() - 1 };
+      localStorage.setItem(recordKey, JSON.stringify({ [input.name]: expiredEntry, [otherInput.name]: "other-value" }));
+      formStorageObserver.load(form);
+
+      expect(input).not.toHaveValue();
+      expect(otherInput).toHaveValue("other-value");
+      expect(JSON.parse(localStorage.getItem(recordKey) as string)).toStrictEqual({ [otherInput.name]: "other-value" });
+    });
+
+    it("Clears a form's data from its record", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record" });
+      const { form, input, otherInput } = renderRecordForm();
+      const record = { [input.name]: "value", [otherInput.name]: "other-value" };
+
+      // Single Field
+      localStorage.setItem(recordKey, JSON.stringify(record));
+      formStorageObserver.clear(form, input.name);
+      expect(JSON.parse(localStorage.getItem(recordKey) as string)).toStrictEqual({ [otherInput.name]: "other-value" });
+
+      // Fields that aren't in the record are ignored
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      formStorageObserver.clear(form, input.name);
+      expect(setItem).not.toHaveBeenCalled();
+
+      // Removing the last entry removes the record
+      formStorageObserver.clear(form, otherInput.name);
+      expect(localStorage.getItem(recordKey)).toBe(null);
+
+      // Entire Form (Single Deletion)
+      localStorage.setItem(recordKey, JSON.stringify(record));
+      const removeItem = vi.spyOn(Storage.prototype, "removeItem");
+      formStorageObserver.clear(form);
+
+      expect(removeItem).toHaveBeenCalledTimes(1);
+      expect(removeItem).toHaveBeenCalledWith(recordKey);
+      expect(localStorage.getItem(recordKey)).toBe(null);
+    });
+
+    it("Discards a form's pending writes when its record is cleared", () => {
+      vi.useFakeTimers();
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", debounce: 100 });
+      const { form, input } = renderRecordForm();
+
+      const otherForm = document.body.appendChild(document.createElement("form")); // Unnamed forms are allowed too
+      const unrelatedInput = otherForm.appendChild(document.createElement("input"));
+      unrelatedInput.name = input.name;
+
+      formStorageObserver.observe(form);
+      formStorageObserver.observe(otherForm);
+      [input, unrelatedInput].forEach((i) => i.dispatchEvent(new Event(types[0], { bubbles: true })));
+
+      formStorageObserver.clear(form);
+      vi.advanceTimersByTime(100);
+      vi.useRealTimers();
+
+      expect(localStorage.getItem(recordKey)).toBe(null);
+      expect(localStorage.getItem("form-record:global-scope")).not.toBe(null);
+      formStorageObserver.disconnect();
+    });
+
+    it("Prevents concurrent (asynchronous) writes from overwriting each other", async () => {
+      const memoryStorage = createMemoryStorageAdapter();
+      const wait = () => {
+        return new Promise((resolve) => {
+          setTimeout(resolve, 5);
+        });
+      };
+      const storage: FormStorageAdapter = {
+        get: (key) => wait().then(() => memoryStorage.get(key)),
+        set: (key, value) => wait().then(() => memoryStorage.set(key, value)),
+        remove: (key) => wait().then(() => memoryStorage.remove(key)),
+        keys: () => memoryStorage.keys(),
+      };
+
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", storage });
+      const { form, input, otherInput } = renderRecordForm();
+      input.value = "value";
+      otherInput.value = "other-value";
+
+      const updates = [
+        formStorageObserver.clear(form, input.name),
+        formStorageObserver.load(form, input.name),
+        formStorageObserver.clear(form, otherInput.name),
+      ];
+
+      formStorageObserver.observe(form);
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      otherInput.dispatchEvent(new Event(types[0], { bubbles: true }));
+
+      await Promise.all(updates);
+      await vi.waitFor(() => {
+        expect(JSON.parse(memoryStorage.get(recordKey) as string)).toStrictEqual({
+          [input.name]: "value",
+          [otherInput.name]: "other-value",
+        });
+      });
+
+      // Failed updates don't prevent later updates
+      vi.spyOn(storage, "set").mockRejectedValueOnce(new Error("Storage is full"));
+      const failedUpdate = formStorageObserver.clear(form, input.name);
+      const nextUpdate = formStorageObserver.clear(form, otherInput.name);
+
+      await expect(failedUpdate).rejects.toThrow("Storage is full");
+      await expect(nextUpdate).resolves.toBeUndefined();
+      expect(JSON.parse(memoryStorage.get(recordKey) as string)).toStrictEqual({ [input.name]: "value" });
+      formStorageObserver.disconnect();
+    });
+
+    it("Removes the expired entries of every record when `prune` is called", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record" });
+      const expiredEntry = { fso: 1, value: "expired", expires: Date.now() - 1 };
+      const freshEntry = { fso: 1, value: "fresh", expires: Date.now() + 60_000 };
+
+      localStorage.setItem(recordKey, JSON.stringify({ expired: expiredEntry, fresh: freshEntry }));
+      localStorage.setItem("form-record:expired-form", JSON.stringify({ expired: expiredEntry }));
+      localStorage.setItem("form-record:fresh-form", JSON.stringify({ fresh: freshEntry }));
+
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      formStorageObserver.prune();
+
+      expect(JSON.parse(localStorage.getItem(recordKey) as string)).toStrictEqual({ fresh: freshEntry });
+      expect(localStorage.getItem("form-record:expired-form")).toBe(null);
+      expect(localStorage.getItem("form-record:fresh-form")).toBe(JSON.stringify({ fresh: freshEntry }));
+      expect(setItem).toHaveBeenCalledTimes(1); // Records without expired entries are left alone
+    });
+  });
+
+  describe("File Persistence", () => {
+    /** A minimal `DataTransfer` implementation (because `jsdom` doesn't support `DataTransfer`) */
+    class FakeDataTransfer {
+      files: File[] = [];
+      items = { add: (file: File) => this.files.push(file) };
+    }
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.stubGlobal("DataTransfer", FakeDataTransfer);
+
+      // Node can't clone `jsdom`'s `File`s, so `fake-indexeddb` needs some help storing them
+      const { structuredClone } = globalThis;
+      vi.stubGlobal("structuredClone", (value: unknown) => {
+        return Array.isArray(value) && value.every((v) => v instanceof File) ? [...value] : structuredClone(value);
+      });
+
+      return () => vi.unstubAllGlobals();
+    });
+
+    /** Renders a `form` with a file input (whose restored `files` can be inspected) and returns both elements */
+    function renderFileForm(attributes = "multiple") {
+      document.body.innerHTML = `
+        <form name="file-form" aria-label="Test Form">
+          <label>Attachments<input name="attachments" type="file" ${attributes} /></label>
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const input = screen.getByLabelText<HTMLInputElement>("Attachments");
+      return { form, input };
+    }
+
+    /** Renders a fresh file `form`, loads its data with the provided `observer`, and returns the restored `File`s */
+    async function restoreFiles(observer: InstanceType<typeof FormStorageObserver>, attributes?: string) {
+      const { form, input } = renderFileForm(attributes);
+      let restoredFiles: File[] | undefined;
+      Object.defineProperty(input, "files", {
+        set: (files: File[]) => {
+          restoredFiles = files;
+        },
+      });
+
+      await observer.load(form);
+      return restoredFiles;
+    }
+
+    /** Creates a `File` with the provided number of bytes */
+    function createFile(size: number) {
+      return new File(["a".repeat(size)], `${faker.system.fileName()}`, { type: "text/plain" });
+    }
+
+    it("Stores the selected files in `IndexedDB` and restores them when the `files` option is enabled", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { files: { database: faker.string.uuid() } });
+      const { form, input } = renderFileForm();
+      const files = [createFile(3), createFile(5)];
+
+      formStorageObserver.observe(form);
+      await userEvent.upload(input, files);
+      await vi.waitFor(async () => expect(await restoreFiles(formStorageObserver)).toStrictEqual(files));
+
+      // Files are never written to the regular storage backend
+      expect(localStorage).toHaveLength(0);
+
+      // Only the first file is restored into fields that don't accept multiple files
+      expect(await restoreFiles(formStorageObserver, "")).toStrictEqual(files.slice(0, 1));
+      formStorageObserver.disconnect();
+    });
+
+    it("Ignores file inputs when the `files` option is disabled (default)", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0]);
+      const { form, input } = renderFileForm();
+
+      formStorageObserver.observe(form);
+      await userEvent.upload(input, [createFile(3)]);
+      expect(formStorageObserver.save(form)).toBeUndefined();
+      expect(await restoreFiles(formStorageObserver)).toBeUndefined();
+      expect(localStorage).toHaveLength(0);
+    });
+
+    it("Respects the field rules when storing files", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        files: { database: faker.string.uuid() },
+        exclude: "attachments",
+      });
+      const { form, input } = renderFileForm();
+
+      await userEvent.upload(input, [createFile(3)]);
+      expect(formStorageObserver.save(form)).toBeUndefined();
+      expect(await restoreFiles(formStorageObserver)).toBeUndefined();
+    });
+
+    it("Refuses to store selections that exceed the configured size limits", async () => {
+      const database = faker.string.uuid();
+      const formStorageObserver = new FormStorageObserver(types[0], { files: { database, maxFileSize: 4 } });
+      const { form, input } = renderFileForm();
+      const files = [createFile(4), createFile(4)];
+
+      // Files within the limits are stored
+      await userEvent.upload(input, files);
+      await formStorageObserver.save(form, input.name);
+      expect(await restoreFiles(formStorageObserver)).toStrictEqual(files);
+
+      // Files that are too large are rejected (and the outdated files are removed)
+      const { form: newForm, input: newInput } = renderFileForm();
+      await userEvent.upload(newInput, [createFile(1), createFile(5)]);
+      await formStorageObserver.save(newForm, newInput.name);
+      expect(await restoreFiles(formStorageObserver)).toBeUndefined();
+
+      // Selections that are too large are rejected
+      const totalObserver = new FormStorageObserver(types[0], { files: { database, maxTotalSize: 7 } });
+      const { form: totalForm, input: totalInput } = renderFileForm();
+      await userEvent.upload(totalInput, files);
+      await totalObserver.save(totalForm, totalInput.name);
+      expect(await restoreFiles(totalObserver)).toBeUndefined();
+
+      // Empty selections remove the outdated files
+      const defaultObserver = new FormStorageObserver(types[0], { files: true });
+      const { form: emptyForm, input: emptyInput } = renderFileForm();
+      await userEvent.upload(emptyInput, files);
+      await defaultObserver.save(emptyForm);
+      expect(await restoreFiles(defaultObserver)).toStrictEqual(files);
+
+      await defaultObserver.save(renderFileForm().form);
+      expect(await restoreFiles(defaultObserver)).toBeUndefined();
+    });
+
+    it("Includes the stored files in the snapshot that is provided to `shouldRestore`", async () => {
+      const database = faker.string.uuid();
+      const { form, input } = renderFileForm();
+      const files = [createFile(3)];
+
+      await userEvent.upload(input, files);
+      await new FormStorageObserver(types[0], { files: { database } }).save(form);
+
+      const shouldRestore = vi.fn(() => false);
+      const formStorageObserver = new FormStorageObserver(types[0], { files: { database }, shouldRestore });
+      formStorageObserver.observe(renderFileForm().form);
+      await vi.waitFor(() => expect(shouldRestore).toHaveBeenCalledWith(expect.anything(), { [input.name]: files }));
+      formStorageObserver.disconnect();
+
+      // Fields without stored files are left out
+      const { form: mixedForm } = renderFileForm();
+      const textbox = mixedForm.appendChild(document.createElement("input"));
+      textbox.name = "note";
+      localStorage.setItem(`form:${mixedForm.name}:${textbox.name}`, JSON.stringify("note"));
+
+      const emptyObserver = new FormStorageObserver(types[0], {
+        files: { database: faker.string.uuid() },
+        shouldRestore,
+      });
+      emptyObserver.observe(mixedForm);
+      await vi.waitFor(() => expect(shouldRestore).toHaveBeenLastCalledWith(mixedForm, { [textbox.name]: "note" }));
+      emptyObserver.disconnect();
+    });
+
+    it("Removes the stored files when the field's data is cleared", async () => {
+      const files = [createFile(3)];
+
+      for (const format of ["field", "record"] as const) {
+        const formStorageObserver = new FormStorageObserver(types[0], {
+          format,
+          files: { database: faker.string.uuid() },
+        });
+        const { form, input } = renderFileForm();
+
+        // Single Field
+        await userEvent.upload(input, files);
+        await formStorageObserver.save(form);
+        await expect(formStorageObserver.clear(form, input.name)).resolves.toBeUndefined();
+        expect(await restoreFiles(formStorageObserver)).toBeUndefined();
+
+        // Entire Form
+        const { form: newForm, input: newInput } = renderFileForm();
+        await userEvent.upload(newInput, files);
+        await formStorageObserver.save(newForm);
+        expect(await restoreFiles(formStorageObserver)).toStrictEqual(files);
+
+        await expect(formStorageObserver.clear(newForm)).resolves.toBeUndefined();
+        expect(await restoreFiles(formStorageObserver)).toBeUndefined();
+      }
+    });
+
+    it("Only removes stored files for file inputs (so that other fields are cleared synchronously)", () => {
+      for (const format of ["field", "record"] as const) {
+        const formStorageObserver = new FormStorageObserver(types[0], {
+          format,
+          automate: "neither",
+          files: { database: faker.string.uuid() },
+        });
+        const { form, input } = renderSimpleForm();
+
+        input.value = faker.lorem.word();
+        formStorageObserver.save(form);
+        expect(localStorage).toHaveLength(1);
+
+        // Single Field
+        expect(formStorageObserver.clear(form, input.name)).toBeUndefined();
+        expect(localStorage).toHaveLength(0);
+
+        // Entire Form
+        formStorageObserver.save(form);
+        expect(localStorage).toHaveLength(1);
+        expect(formStorageObserver.clear(form)).toBeUndefined();
+        expect(localStorage).toHaveLength(0);
+      }
+    });
+  });
+
+  describe("Custom Element State", () => {
+    // NOTE: `jsdom` doesn't support form-associated custom elements, so customized built-ins are used instead
+    class StatefulInput extends HTMLInputElement implements StatefulFormField {
+      formStorageState: unknown = null;
+    }
+
+    class RestorableInput extends HTMLInputElement implements StatefulFormField {
+      formStateRestoreCallback = vi.fn<(state: unknown, mode: "restore" | "autocomplete") => void>();
+    }
+
+    beforeAll(() => {
+      customElements.define("stateful-input", StatefulInput, { extends: "input" });
+      customElements.define("restorable-input", RestorableInput, { extends: "input" });
+    });
+
+    beforeEach(() => localStorage.clear());
+
+    it("Saves and loads the structured `formStorageState` of fields that implement it", () => {
+      const formStorageObserver = new FormStorageObserver("change");
+      document.body.innerHTML = `
+        <form name="stateful-form" aria-label="Test Form">
+          <input is="stateful-input" name="rating" type="text" aria-label="Rating" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const field = screen.getByRole<StatefulInput>("textbox");
+      const state = { stars: faker.number.int({ max: 5 }), tags: [faker.lorem.word()] };
+      formStorageObserver.observe(form);
+
+      // Saving
+      field.formStorageState = state;
+      field.dispatchEvent(new Event("change", { bubbles: true }));
+      expect(localStorage.getItem(`form:${form.name}:${field.name}`)).toBe(JSON.stringify(state));
+
+      // Loading
+      field.formStorageState = null;
+      formStorageObserver.load(form);
+      expect(field.formStorageState).toStrictEqual(state);
+
+      field.formStorageState = null;
+      FormStorageObserver.load(form, field.name);
+      expect(field.formStorageState).toStrictEqual(state);
+      formStorageObserver.disconnect();
+    });
+
+    it("Loads stored data with `formStateRestoreCallback` for fields that don't implement `formStorageState`", () => {
+      document.body.innerHTML = `
+        <form name="restorable-form" aria-label="Test Form">
+          <input is="restorable-input" name="color" type="text" aria-label="Color" value="red" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const field = screen.getByRole<RestorableInput>("textbox");
+
+      // Fields without `formStorageState` have their `value` saved
+      FormStorageObserver.save(form);
+      expect(localStorage.getItem(`form:${form.name}:${field.name}`)).toBe(JSON.stringify("red"));
+
+      field.value = "blue";
+      FormStorageObserver.load(form);
+      expect(field.formStateRestoreCallback).toHaveBeenCalledWith("red", "restore");
+      expect(field).toHaveValue("blue");
+    });
+  });
+
+  describe("Restore Events", () => {
+    beforeEach(() => localStorage.clear());
+
+    /** Renders a `form` with several kinds of fields, stores values for most of them, and returns the `form` */
+    function renderStoredForm() {
+      document.body.innerHTML = `
+        <form name="restored-form" aria-label="Test Form">
+          <input name="textbox" type="text" aria-label="Textbox" />
+          <input name="checkbox" type="checkbox" aria-label="Checkbox" />
+          <input name="radio" type="radio" value="1" aria-label="Radio 1" />
+          <input name="radio" type="radio" value="2" aria-label="Radio 2" />
+          <input name="missing" type="text" aria-label="Missing" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      localStorage.setItem(`form:${form.name}:textbox`, JSON.stringify(faker.lorem.word()));
+      localStorage.setItem(`form:${form.name}:checkbox`, JSON.stringify(true));
+      localStorage.setItem(`form:${form.name}:radio`, JSON.stringify("2"));
+      return form;
+    }
+
+    /** Records the `[type, target]` pairs of the provided event `types` that are dispatched on the `document` */
+    function recordEvents(...eventTypes: string[]) {
+      const events: Array<[string, EventTarget | null]> = [];
+      const record = (event: Event) => events.push([event.type, event.target]);
+      eventTypes.forEach((t) => document.addEventListener(t, record));
+
+      const stop = () => eventTypes.forEach((t) => document.removeEventListener(t, record));
+      return { events, stop };
+    }
+
+    it("Dispatches `input` and `change` events on the restored fields when `restoreEvents` is `native`", () => {
+      const formStorageObserver = new FormStorageObserver(["input", "change"], { restoreEvents: "native" });
+      const form = renderStoredForm();
+      const { events, stop } = recordEvents("input", "change", "formstorage:load");
+
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      formStorageObserver.observe(form);
+
+      const textbox = screen.getByRole("textbox", { name: "Textbox" });
+      const checkbox = screen.getByRole("checkbox");
+      const radio = screen.getByRole("radio", { name: "Radio 2" });
+      expect(events.slice(0, -1)).toStrictEqual([
+        ["input", textbox],
+        ["change", textbox],
+        ["input", checkbox],
+        ["change", checkbox],
+        ["input", radio],
+        ["change", radio],
+      ]);
+
+      // A summary event is dispatched on the `form` last
+      expect(events.at(-1)).toStrictEqual(["formstorage:load", form]);
+
+      // The restored values are not saved again
+      expect(setItem).not.toHaveBeenCalled();
+      formStorageObserver.disconnect();
+      stop();
+    });
+
+    it("Dispatches `formstorage:restore` events on the restored fields when `restoreEvents` is `custom`", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { restoreEvents: "custom", automate: "neither" });
+      const form = renderStoredForm();
+      const { events, stop } = recordEvents("input", "change", "formstorage:restore");
+
+      const onLoad = vi.fn((event: Event) => (event as CustomEvent<{ names: string[] }>).detail.names);
+      form.addEventListener("formstorage:load", onLoad);
+
+      // Entire Form
+      formStorageObserver.load(form);
+      expect(events.map(([type]) => type)).toStrictEqual(Array(3).fill("formstorage:restore"));
+      expect(onLoad).toHaveLastReturnedWith(["textbox", "checkbox", "radio"]);
+
+      // Single Field (whose stored value doesn't match any radio button)
+      events.length = 0;
+      localStorage.setItem(`form:${form.name}:radio`, JSON.stringify("3"));
+      screen.getByRole<HTMLInputElement>("radio", { name: "Radio 2" }).checked = false;
+      formStorageObserver.load(form, "radio");
+      expect(events).toStrictEqual([["formstorage:restore", screen.getByRole("radio", { name: "Radio 1" })]]);
+      expect(onLoad).toHaveLastReturnedWith(["radio"]);
+
+      // Fields without stored values are not announced
+      formStorageObserver.load(form, "missing");
+      expect(events).toHaveLength(1);
+      expect(onLoad).toHaveLastReturnedWith([]);
+      stop();
+    });
+
+    it("Does not dispatch any events by default", () => {
+      const form = renderStoredForm();
+      const { events, stop } = recordEvents("input", "change", "formstorage:restore", "formstorage:load");
+
+      new FormStorageObserver(types[0]).load(form);
+      FormStorageObserver.load(form);
+      expect(events).toHaveLength(0);
+      stop();
+    });
+
+    it("Dispatches events for the values received from other browsing contexts", async () => {
+      const otherTab = new BroadcastChannel("form-storage-observer");
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        sync: true,
+        automate: "neither",
+        restoreEvents: "custom",
+      });
+      const form = renderStoredForm();
+      const { events, stop } = recordEvents("formstorage:restore");
+
+      formStorageObserver.observe(form);
+      otherTab.postMessage({ form: form.name, name: "missing" });
+      otherTab.postMessage({ form: form.name, name: "textbox" });
+
+      await vi.waitFor(() => expect(events).toStrictEqual([["formstorage:restore", screen.getByLabelText("Textbox")]]));
+      formStorageObserver.disconnect();
+      otherTab.close();
+      stop();
+    });
+  });
+
+  describe("Storage Keys", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Namespaces the default storage keys with the `key` option when it is a string", async () => {
+      const prefix = faker.string.alphanumeric(8);
+      const { form, input, key } = renderSimpleForm();
+
+      for (const format of ["field", "record"] as const) {
+        const value = `${format}-${faker.lorem.word()}`;
+        const formStorageObserver = new FormStorageObserver(types[0], { key: prefix, format, automate: "neither" });
+        const storedKey = format === "field" ? `${prefix}:${key}` : `${prefix}:form-record:${form.name}`;
+        const storedValue = format === "field" ? value : { [input.name]: value };
+
+        // Saving
+        formStorageObserver.observe(form);
+        await userEvent.clear(input);
+        await userEvent.type(input, `${value}{Tab}`);
+        expect(localStorage.getItem(storedKey)).toBe(JSON.stringify(storedValue));
+
+        // Loading
+        form.reset();
+        formStorageObserver.load(form);
+        expect(input).toHaveValue(value);
+
+        // Clearing
+        formStorageObserver.clear(form);
+        expect(localStorage).toHaveLength(0);
+
+        formStorageObserver.save(form);
+        expect(localStorage.getItem(storedKey)).toBe(JSON.stringify(storedValue));
+        formStorageObserver.clear(form, input.name);
+        expect(localStorage).toHaveLength(0);
+        formStorageObserver.disconnect();
+      }
+    });
+
+    it("Derives the storage keys with the `key` option when it is a function", async () => {
+      document.body.innerHTML = `
+        <form id="first" aria-label="First Form"><input name="textbox" type="text" aria-label="First" /></form>
+        <form id="second" aria-label="Second Form"><input name="textbox" type="text" aria-label="Second" /></form>
+      `;
+
+      const key = vi.fn((form: HTMLFormElement, fieldName: string) => `drafts/${form.id}/${fieldName}`);
+      const formStorageObserver = new FormStorageObserver(types[0], { key, automate: "neither" });
+      const [first, second] = screen.getAllByRole<HTMLFormElement>("form");
+      const firstInput = screen.getByRole<HTMLInputElement>("textbox", { name: "First" });
+      const secondInput = screen.getByRole<HTMLInputElement>("textbox", { name: "Second" });
+
+      // Unnamed forms no longer collide
+      formStorageObserver.observe(first);
+      formStorageObserver.observe(second);
+      await userEvent.type(firstInput, "1{Tab}");
+      await userEvent.type(secondInput, "2{Tab}");
+      expect(key).toHaveBeenCalledWith(first, firstInput.name);
+      expect(localStorage.getItem("drafts/first/textbox")).toBe(JSON.stringify("1"));
+      expect(localStorage.getItem("drafts/second/textbox")).toBe(JSON.stringify("2"));
+
+      first.reset();
+      second.reset();
+      formStorageObserver.load(first);
+      formStorageObserver.load(second);
+      expect(firstInput).toHaveValue("1");
+      expect(secondInput).toHaveValue("2");
+
+      formStorageObserver.clear(first);
+      expect(localStorage.getItem("drafts/first/textbox")).toBe(null);
+      expect(localStorage.getItem("drafts/second/textbox")).toBe(JSON.stringify("2"));
+      formStorageObserver.disconnect();
+
+      // Records use an empty `fieldName`
+      const recordObserver = new FormStorageObserver(types[0], { key, format: "record" });
+      recordObserver.save(first);
+      expect(localStorage.getItem("drafts/first/")).toBe(JSON.stringify({ [firstInput.name]: "1" }));
+    });
+
+    it("Only prunes the keys that belong to its own namespace", async () => {
+      const now = Date.now();
+      const expired = JSON.stringify({ fso: 1, value: "1", expires: now - 1 });
+      const entries = ["form:first:expired", "user-1:form:first:expired", "user-2:form:first:expired"];
+      entries.forEach((key) => localStorage.setItem(key, expired));
+      localStorage.setItem("user-1:form-record:first", JSON.stringify({ expired: JSON.parse(expired) }));
+
+      // String Namespaces
+      await new FormStorageObserver(types[0], { key: "user-1" }).prune();
+      expect(localStorage.getItem("user-1:form:first:expired")).toBe(null);
+      expect(localStorage.getItem("user-1:form-record:first")).toBe(null);
+      expect(localStorage.getItem("form:first:expired")).toBe(expired);
+      expect(localStorage.getItem("user-2:form:first:expired")).toBe(expired);
+
+      // Custom Functions
+      await new FormStorageObserver(types[0], { key: (_, fieldName) => `form:first:${fieldName}` }).prune();
+      expect(localStorage.getItem("form:first:expired")).toBe(expired);
+    });
+  });
+
+  describe("Repeated Field Names", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Stores the checked state of every checkbox in a checkbox group", async () => {
+      const formStorageObserver = new FormStorageObserver("change", { restoreEvents: "custom" });
+      document.body.innerHTML = `
+        <form name="pizza" aria-label="Test Form">
+          <input name="toppings" type="checkbox" value="cheese" aria-label="Cheese" />
+          <input name="toppings" type="checkbox" value="olives" aria-label="Olives" />
+          <input name="toppings" type="checkbox" value="peppers" aria-label="Peppers" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const checkboxes = screen.getAllByRole<HTMLInputElement>("checkbox");
+      const key = `form:${form.name}:toppings`;
+      formStorageObserver.observe(form);
+
+      // Saving
+      await userEvent.click(checkboxes[0]);
+      await userEvent.click(checkboxes[2]);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify([true, false, true]));
+
+      await userEvent.click(checkboxes[0]);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify([false, false, true]));
+
+      // Loading
+      const restoredFields: EventTarget[] = [];
+      form.addEventListener("formstorage:restore", (event) => restoredFields.push(event.target as EventTarget));
+      checkboxes.forEach((checkbox) => (checkbox.checked = !checkbox.checked)); // eslint-disable-line no-param-reassign
+      formStorageObserver.load(form);
+      expect(checkboxes.map((checkbox) => checkbox.checked)).toStrictEqual([false, false, true]);
+      expect(restoredFields).toStrictEqual(checkboxes);
+
+      // Static Methods
+      await userEvent.click(checkboxes[1]);
+      localStorage.clear();
+      FormStorageObserver.save(form);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify([false, true, true]));
+
+      checkboxes.forEach((checkbox) => (checkbox.checked = false)); // eslint-disable-line no-param-reassign
+      FormStorageObserver.load(form);
+      expect(checkboxes.map((checkbox) => checkbox.checked)).toStrictEqual([false, true, true]);
+      formStorageObserver.disconnect();
+    });
+
+    it("Stores the value of every field that shares the same `name` (in order)", () => {
+      document.body.innerHTML = `
+        <form name="contact" aria-label="Test Form">
+          <input name="phone" type="text" aria-label="Phone 1" />
+          <input name="phone" type="text" aria-label="Phone 2" data-fso-ignore />
+          <input name="phone" type="text" aria-label="Phone 3" />
+          <input name="secret" type="password" aria-label="Secret 1" />
+          <input name="secret" type="password" aria-label="Secret 2" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const phones = screen.getAllByRole<HTMLInputElement>("textbox");
+      const key = `form:${form.name}:phone`;
+      const values = phones.map(() => faker.phone.number());
+      phones.forEach((phone, i) => (phone.value = values[i])); // eslint-disable-line no-param-reassign
+
+      // Members whose values can't be stored are represented by `null`
+      FormStorageObserver.save(form);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify([values[0], null, values[2]]));
+      expect(localStorage.getItem(`form:${form.name}:secret`)).toBe(null);
+
+      // Loading
+      form.reset();
+      FormStorageObserver.load(form);
+      expect(phones.map((phone) => phone.value)).toStrictEqual([values[0], "", values[2]]);
+
+      // Groups that have more members than stored values only restore the members with stored values
+      form.reset();
+      localStorage.setItem(key, JSON.stringify(["1"]));
+      FormStorageObserver.load(form);
+      expect(phones.map((phone) => phone.value)).toStrictEqual(["1", "", ""]);
+
+      // Values that were stored before the `name` was shared are ignored
+      localStorage.setItem(key, JSON.stringify("2"));
+      FormStorageObserver.load(form);
+      expect(phones.map((phone) => phone.value)).toStrictEqual(["1", "", ""]);
+    });
+  });
+
+  describe("Draft Lifecycle", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Clears a form's data when it is submitted if the `clearOn` option includes `submit`", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { clearOn: "submit" });
+      const { form, input, key } = renderSimpleForm();
+      const value = faker.lorem.words();
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, `${value}{Tab}`);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify(value));
+      vi.useFakeTimers();
+
+      // Forms that fail validation keep their data
+      input.required = true;
+      input.value = "";
+      form.requestSubmit();
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(JSON.stringify(value));
+
+      // Successful submissions clear the data (after the event's other listeners have run)
+      input.value = value;
+      form.dispatchEvent(new SubmitEvent("submit", { cancelable: true }));
+      expect(localStorage.getItem(key)).toBe(JSON.stringify(value));
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(null);
+
+      // Resets are ignored
+      localStorage.setItem(key, JSON.stringify(value));
+      form.reset();
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(JSON.stringify(value));
+
+      // Unobserved forms are ignored
+      formStorageObserver.unobserve(form);
+      form.dispatchEvent(new SubmitEvent("submit", { cancelable: true }));
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(JSON.stringify(value));
+      vi.useRealTimers();
+    });
+
+    it("Keeps a form's data when a `clearOn` event is canceled (by any of its listeners)", () => {
+      vi.useFakeTimers();
+      const formStorageObserver = new FormStorageObserver(types[0], { clearOn: ["submit", "reset"] });
+      const { form, key } = renderSimpleForm();
+      const value = JSON.stringify(faker.lorem.words());
+      localStorage.setItem(key, value);
+
+      // Listeners that run after the observer's listener can still cancel the event
+      formStorageObserver.observe(form);
+      form.addEventListener("submit", (event) => event.preventDefault());
+      form.addEventListener("reset", (event) => event.preventDefault());
+
+      form.requestSubmit();
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(value);
+
+      form.reset();
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(value);
+
+      // Applications that submit their forms with JavaScript clear the data themselves
+      formStorageObserver.clear(form);
+      expect(localStorage.getItem(key)).toBe(null);
+      formStorageObserver.disconnect();
+      vi.useRealTimers();
+    });
+
+    it("Clears a form's data when it is reset if the `clearOn` option includes `reset`", () => {
+      vi.useFakeTimers();
+      const formStorageObserver = new FormStorageObserver(types[0], { clearOn: ["submit", "reset"] });
+      const { form, key } = renderSimpleForm();
+      localStorage.setItem(key, JSON.stringify(faker.lorem.words()));
+
+      formStorageObserver.observe(form);
+      form.reset();
+      vi.runAllTimers();
+      expect(localStorage.getItem(key)).toBe(null);
+      formStorageObserver.disconnect();
+      vi.useRealTimers();
+    });
+
+    it("Only loads a form's data automatically if the `shouldRestore` option approves it", async () => {
+      const { form, input, key } = renderSimpleForm();
+      const value = faker.lorem.words();
+
+      // Approved Data
+      const shouldRestore = vi.fn(() => Promise.resolve(true));
+      const approvingObserver = new FormStorageObserver(types[0], { shouldRestore });
+      localStorage.setItem(key, JSON.stringify(value));
+
+      approvingObserver.observe(form);
+      expect(input).not.toHaveValue();
+      await vi.waitFor(() => expect(input).toHaveValue(value));
+      expect(shouldRestore).toHaveBeenCalledWith(form, { [input.name]: value });
+      approvingObserver.disconnect();
+
+      // Declined Data (is cleared)
+      form.reset();
+      const decliningObserver = new FormStorageObserver(types[0], { shouldRestore: () => false });
+      decliningObserver.observe(form);
+      expect(input).not.toHaveValue();
+      expect(localStorage.getItem(key)).toBe(null);
+      decliningObserver.disconnect();
+
+      // Missing Data
+      approvingObserver.observe(form);
+      expect(shouldRestore).toHaveBeenCalledTimes(1);
+      approvingObserver.disconnect();
+
+      // Manual Loading
+      localStorage.setItem(key, JSON.stringify(value));
+      const manualObserver = new FormStorageObserver(types[0], { automate: "neither", shouldRestore });
+      manualObserver.observe(form);
+      expect(shouldRestore).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Named Snapshots", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Saves, lists, loads, and deletes named snapshots of a form's data", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither" });
+      const { form, input, key } = renderSimpleForm();
+      const [firstValue, secondValue] = [faker.lorem.words(), faker.lorem.words()];
+      const now = Date.now();
+      const dateNow = vi.spyOn(Date, "now");
+
+      // Saving
+      dateNow.mockReturnValue(now);
+      input.value = firstValue;
+      formStorageObserver.saveSnapshot(form, "first");
+
+      dateNow.mockReturnValue(now + 1);
+      input.value = secondValue;
+      formStorageObserver.saveSnapshot(form, "second");
+
+      expect(localStorage.getItem(`form-snapshot:${form.name}:first:${input.name}`)).toBe(JSON.stringify(firstValue));
+      expect(localStorage.getItem(key)).toBe(null); // The form's regular data is left alone
+
+      // Listing
+      expect(formStorageObserver.listSnapshots(form)).toStrictEqual([
+        { name: "second", savedAt: now + 1 },
+        { name: "first", savedAt: now },
+      ]);
+
+      // Loading
+      formStorageObserver.loadSnapshot(form, "first");
+      expect(input).toHaveValue(firstValue);
+
+      formStorageObserver.loadSnapshot(form, "second");
+      expect(input).toHaveValue(secondValue);
+
+      // Replacing
+      dateNow.mockReturnValue(now + 2);
+      input.value = firstValue;
+      formStorageObserver.saveSnapshot(form, "first");
+      expect(formStorageObserver.listSnapshots(form)).toStrictEqual([
+        { name: "first", savedAt: now + 2 },
+        { name: "second", savedAt: now + 1 },
+      ]);
+
+      // Deleting
+      formStorageObserver.deleteSnapshot(form, "first");
+      formStorageObserver.deleteSnapshot(form, "missing");
+      expect(formStorageObserver.listSnapshots(form)).toStrictEqual([{ name: "second", savedAt: now + 1 }]);
+
+      input.value = "";
+      formStorageObserver.loadSnapshot(form, "first");
+      expect(input).not.toHaveValue();
+
+      formStorageObserver.deleteSnapshot(form, "second");
+      expect(formStorageObserver.listSnapshots(form)).toStrictEqual([]);
+      expect(localStorage).toHaveLength(0);
+
+      // Unnamed Forms (with Namespaced Keys)
+      const namespacedObserver = new FormStorageObserver(types[0], { key: "user-1", automate: "neither" });
+      form.removeAttribute("name");
+      input.value = firstValue;
+
+      namespacedObserver.saveSnapshot(form, "first");
+      expect(localStorage.getItem(`user-1:form-snapshot:global-scope:first:${input.name}`)).toBe(
+        JSON.stringify(firstValue),
+      );
+      expect(localStorage.getItem("user-1:form-snapshots:global-scope")).toBe(JSON.stringify({ first: now + 2 }));
+    });
+
+    it("Stores snapshots with the observer's configuration", async () => {
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        storage,
+        format: "record",
+        key: (form, fieldName) => `drafts/${form.id}/${fieldName}`,
+        restoreEvents: "custom",
+        automate: "neither",
+      });
+
+      const { form, input } = renderSimpleForm();
+      const value = faker.lorem.words();
+      form.id = "ticket";
+
+      input.value = value;
+      await formStorageObserver.saveSnapshot(form, "draft");
+      expect(await storage.get("drafts/ticket/snapshot:draft:")).toBe(JSON.stringify({ [input.name]: value }));
+      expect(await formStorageObserver.listSnapshots(form)).toStrictEqual([
+        { name: "draft", savedAt: expect.any(Number) },
+      ]);
+
+      // Restore events are dispatched for loaded snapshots
+      const onRestore = vi.fn();
+      form.addEventListener("formstorage:restore", onRestore);
+      input.value = "";
+
+      await formStorageObserver.loadSnapshot(form, "draft");
+      expect(input).toHaveValue(value);
+      expect(onRestore).toHaveBeenCalledTimes(1);
+
+      await formStorageObserver.deleteSnapshot(form, "draft");
+      expect(await storage.keys()).toStrictEqual([]);
+    });
+
+    it("Deletes the snapshot values of fields that were removed from the form", async () => {
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, automate: "neither" });
+      const { form, input } = renderSimpleForm();
+      const removedInput = form.appendChild(document.createElement("input"));
+      removedInput.name = "removed";
+      input.value = faker.lorem.words();
+      removedInput.value = faker.lorem.words();
+
+      await formStorageObserver.saveSnapshot(form, "draft");
+      await formStorageObserver.saveSnapshot(form, "other");
+      removedInput.remove();
+
+      // Other snapshots (and the data of other forms) are left alone
+      const unrelatedKeys = [
+        `form-snapshot:${form.name}:draft:nested:field`,
+        `form-snapshot:${form.name}:drafts:field`,
+      ];
+      await Promise.all(unrelatedKeys.map((key) => storage.set(key, JSON.stringify("value"))));
+
+      await formStorageObserver.deleteSnapshot(form, "draft");
+      expect((await storage.keys()).sort()).toStrictEqual(
+        [
+          ...unrelatedKeys,
+          `form-snapshot:${form.name}:other:${input.name}`,
+          `form-snapshot:${form.name}:other:${removedInput.name}`,
+          `form-snapshots:${form.name}`,
+        ].sort(),
+      );
+
+      // Synchronous Storage
+      const syncObserver = new FormStorageObserver(types[0], { automate: "neither" });
+      form.appendChild(removedInput);
+      syncObserver.saveSnapshot(form, "draft");
+      removedInput.remove();
+
+      syncObserver.deleteSnapshot(form, "draft");
+      expect(localStorage).toHaveLength(0);
+    });
+
+    it("Removes expired snapshot values when the storage is pruned", () => {
+      const fieldObserver = new FormStorageObserver(types[0], { expiresIn: 1000, automate: "neither" });
+      const recordObserver = new FormStorageObserver(types[0], {
+        key: "records",
+        format: "record",
+        expiresIn: 1000,
+        automate: "neither",
+      });
+
+      const { form, input } = renderSimpleForm();
+      const now = Date.now();
+      const dateNow = vi.spyOn(Date, "now").mockReturnValue(now);
+
+      input.value = faker.lorem.words();
+      fieldObserver.saveSnapshot(form, "draft");
+      recordObserver.saveSnapshot(form, "draft");
+
+      const entryKey = `form-snapshot:${form.name}:draft:${input.name}`;
+      const recordKey = `records:form-snapshot:${form.name}:draft:`;
+      expect(localStorage.getItem(entryKey)).not.toBe(null);
+      expect(localStorage.getItem(recordKey)).not.toBe(null);
+
+      // Unexpired values are kept
+      fieldObserver.prune();
+      recordObserver.prune();
+      expect(localStorage.getItem(entryKey)).not.toBe(null);
+      expect(localStorage.getItem(recordKey)).not.toBe(null);
+
+      dateNow.mockReturnValue(now + 1001);
+      fieldObserver.prune();
+      expect(localStorage.getItem(entryKey)).toBe(null);
+      expect(localStorage.getItem(recordKey)).not.toBe(null);
+
+      recordObserver.prune();
+      expect(localStorage.getItem(recordKey)).toBe(null);
+    });
+  });
+
+  describe("Value Transforms", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("Transforms stored and loaded values with the `serialize` and `deserialize` options", async () => {
+      const formStorageObserver = new FormStorageObserver("change", {
+        serialize: (field) => (field as HTMLInputElement).value.trim().toUpperCase(),
+        deserialize: (stored, field) => `${String(stored).toLowerCase()} (${(field as HTMLInputElement).name})`,
+      });
+
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      // Event-driven Saves
+      await userEvent.type(input, "  hello  {Tab}");
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("HELLO"));
+
+      // Manual Saves
+      input.value = " world ";
+      formStorageObserver.save(form);
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("WORLD"));
+
+      // Loading
+      formStorageObserver.load(form);
+      expect(input).toHaveValue(`world (${input.name})`);
+
+      // Fields whose values wouldn't be stored by default are still ignored
+      input.setAttribute("data-fso-ignore", "");
+      localStorage.clear();
+      formStorageObserver.save(form);
+      expect(localStorage).toHaveLength(0);
+      formStorageObserver.disconnect();
+    });
+
+    it("Allows fields to `configure` their own transforms (which take precedence)", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        automate: "neither",
+        serialize: () => "global",
+      });
+
+      document.body.innerHTML = `
+        <form name="transforms" aria-label="Test Form">
+          <input name="color" type="radio" value="gray" aria-label="Gray" />
+          <input name="color" type="radio" value="blue" aria-label="Blue" checked />
+          <input name="tag" type="text" aria-label="Tag 1" value="a" />
+          <input name="tag" type="text" aria-label="Tag 2" value="b" />
+          <input name="note" type="text" aria-label="Note" value="note" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const serialize = vi.fn((field: StorableField) => field.value);
+      formStorageObserver.configure("color", {
+        serialize,
+        deserialize: (stored) => (stored === "grey" ? "gray" : stored),
+      });
+      formStorageObserver.configure("tag", { deserialize: (stored) => (stored as string[]).map((v) => v.repeat(2)) });
+
+      // Saving
+      formStorageObserver.save(form);
+      expect(serialize).toHaveBeenCalledWith(form.elements.namedItem("color"));
+      expect(localStorage.getItem(`form:${form.name}:color`)).toBe(JSON.stringify("blue"));
+      expect(localStorage.getItem(`form:${form.name}:tag`)).toBe(JSON.stringify("global"));
+      expect(localStorage.getItem(`form:${form.name}:note`)).toBe(JSON.stringify("global"));
+
+      // Loading
+      localStorage.setItem(`form:${form.name}:color`, JSON.stringify("grey"));
+      localStorage.setItem(`form:${form.name}:tag`, JSON.stringify(["x", "y"]));
+      formStorageObserver.load(form);
+
+      expect(screen.getByRole("radio", { name: "Gray" })).toBeChecked();
+      expect(screen.getAllByRole("textbox", { name: /Tag/ }).map((t) => (t as HTMLInputElement).value)).toStrictEqual([
+        "xx",
+        "yy",
+      ]);
+      expect(screen.getByRole("textbox", { name: "Note" })).toHaveValue("global");
+    });
+
+    it("Removes a field's stored value when its `serialize` hook returns `undefined`", () => {
+      const onError = vi.fn();
+      const serialize = (field: StorableField) => ((field as HTMLInputElement).value ? field.value : undefined);
+      const formStorageObserver = new FormStorageObserver(types[0], { serialize, onError });
+      const { form, input, key } = renderSimpleForm();
+
+      formStorageObserver.observe(form);
+      input.value = "a";
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(localStorage.getItem(key)).toBe(JSON.stringify("a"));
+
+      input.value = "";
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(localStorage.getItem(key)).toBe(null);
+
+      // The `record` format leaves the field out of the form's record
+      const recordObserver = new FormStorageObserver(types[0], { serialize, format: "record", automate: "neither" });
+      const recordKey = `form-record:${form.name}`;
+      localStorage.setItem(recordKey, JSON.stringify({ [input.name]: "stale" }));
+      recordObserver.save(form);
+      expect(localStorage.getItem(recordKey)).toBe(null);
+
+      // Loading never encounters an unusable entry
+      expect(formStorageObserver.load(form)).toStrictEqual({ restored: [], mismatched: [], skipped: [], missing: [] });
+      expect(onError).not.toHaveBeenCalled();
+      formStorageObserver.disconnect();
+    });
+  });
+
+  describe("URL Search Params", () => {
+    beforeEach(() => {
+      localStorage.clear();
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("Mirrors field values into the URL when the `searchParams` option is provided", async () => {
+      const formStorageObserver = new FormStorageObserver("change", { searchParams: "replace" });
+      const replaceState = vi.spyOn(window.history, "replaceState");
+      const pushState = vi.spyOn(window.history, "pushState");
+
+      document.body.innerHTML = `
+        <form aria-label="Test Form">
+          <input name="query" type="text" aria-label="Query" />
+          <input name="tags" type="checkbox" value="a" aria-label="Tag A" />
+          <input name="tags" type="checkbox" value="b" aria-label="Tag B" />
+          <input name="secret" type="password" aria-label="Secret" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      formStorageObserver.observe(form);
+
+      // Text Fields
+      await userEvent.type(screen.getByRole("textbox", { name: "Query" }), "hello world{Tab}");
+      expect(window.location.search).toBe("?query=hello+world");
+
+      // Repeated Field Names
+      await userEvent.click(screen.getByRole("checkbox", { name: "Tag A" }));
+      await userEvent.click(screen.getByRole("checkbox", { name: "Tag B" }));
+      expect(window.location.search).toBe("?query=hello+world&tags=a&tags=b");
+
+      // Unstorable Values are never mirrored
+      await userEvent.type(screen.getByLabelText("Secret"), "password{Tab}");
+      expect(window.location.search).not.toContain("secret");
+
+      // Empty values are removed
+      await userEvent.clear(screen.getByRole("textbox", { name: "Query" }));
+      await userEvent.tab();
+      expect(window.location.search).toBe("?tags=a&tags=b");
+      expect(replaceState).toHaveBeenCalledTimes(4);
+      expect(pushState).not.toHaveBeenCalled();
+
+      // Manual Saves leave the URL alone
+      screen.getByRole<HTMLInputElement>("textbox", { name: "Query" }).value = "manual";
+      formStorageObserver.save(form);
+      expect(window.location.search).toBe("?tags=a&tags=b");
+
+      formStorageObserver.disconnect();
+      replaceState.mockRestore();
+      pushState.mockRestore();
+    });
+
+    it("Creates a new history entry for every change when `searchParams` is `push`", async () => {
+      const formStorageObserver = new FormStorageObserver("change", { searchParams: "push" });
+      const { form, input } = renderSimpleForm();
+      const { length } = window.history;
+
+      formStorageObserver.observe(form);
+      await userEvent.type(input, "one{Tab}");
+      await userEvent.clear(input);
+      await userEvent.type(input, "two{Tab}");
+
+      expect(window.history.length).toBe(length + 2);
+      expect(new URLSearchParams(window.location.search).get(input.name)).toBe("two");
+
+      // Redundant changes leave the history alone
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+      expect(window.history.length).toBe(length + 2);
+      formStorageObserver.disconnect();
+    });
+
+    it("Mirrors the stored value of the changed field without serializing the entire form", () => {
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { searchParams: "replace", onError });
+      document.body.innerHTML = `
+        <form name="mirror" aria-label="Test Form">
+          <input name="query" type="text" aria-label="Query" />
+          <select name="colors" aria-label="Colors" multiple>
+            <option>red</option>
+            <option>green</option>
+            <option>blue</option>
+          </select>
+          <input name="rating" type="text" aria-label="Rating" />
+          <input name="tags" type="text" aria-label="Tag" />
+          <input name="tags" type="password" aria-label="Secret Tag" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const onFormData = vi.fn();
+      form.addEventListener("formdata", onFormData);
+      formStorageObserver.observe(form);
+
+      // Multiselects
+      const colors = screen.getByRole<HTMLSelectElement>("listbox", { name: "Colors" });
+      colors.options[0].selected = true;
+      colors.options[2].selected = true;
+      colors.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(window.location.search).toBe("?colors=red&colors=blue");
+
+      // Groups (whose unstorable members are left out)
+      const tag = screen.getByRole<HTMLInputElement>("textbox", { name: "Tag" });
+      tag.value = "tag";
+      screen.getByLabelText<HTMLInputElement>("Secret Tag").value = "secret";
+      tag.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(window.location.search).toBe("?colors=red&colors=blue&tags=tag");
+
+      // Structured State
+      const rating = Object.assign(screen.getByRole<HTMLInputElement>("textbox", { name: "Rating" }), {
+        formStorageState: "5 stars",
+      });
+      rating.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(localStorage.getItem(`form:${form.name}:rating`)).toBe(JSON.stringify("5 stars"));
+      expect(window.location.search).toBe("?colors=red&colors=blue&tags=tag");
+      expect(onFormData).not.toHaveBeenCalled();
+
+      // URL updates that fail (e.g., because they happen too often) are passed to `onError` after the value is stored
+      const error = new DOMException("Too many calls", "SecurityError");
+      vi.spyOn(window.history, "replaceState").mockImplementation(() => {
+        throw error;
+      });
+
+      const query = screen.getByRole<HTMLInputElement>("textbox", { name: "Query" });
+      query.value = "value";
+      expect(() => query.dispatchEvent(new Event(types[0], { bubbles: true }))).not.toThrow();
+      expect(localStorage.getItem(`form:${form.name}:query`)).toBe(JSON.stringify("value"));
+      expect(onError).toHaveBeenCalledExactlyOnceWith(error, form, "query");
+      formStorageObserver.disconnect();
+    });
+
+    it("Loads the values in the URL when a form is observed and when a `popstate` event occurs", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        searchParams: "replace",
+        restoreEvents: "custom",
+      });
+
+      document.body.innerHTML = `
+        <form name="search" aria-label="Test Form">
+          <input name="query" type="text" aria-label="Query" />
+          <input name="sort" type="radio" value="asc" aria-label="Ascending" />
+          <input name="sort" type="radio" value="desc" aria-label="Descending" />
+          <input name="exact" type="checkbox" value="yes" aria-label="Exact" />
+          <select name="colors" aria-label="Colors" multiple>
+            <option>red</option>
+            <option>green</option>
+            <option>blue</option>
+          </select>
+          <input name="tags" type="checkbox" value="a" aria-label="Tag A" />
+          <input name="tags" type="text" aria-label="Tag B" />
+          <input name="secret" type="password" aria-label="Secret" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const restoredValues = vi.fn();
+      form.addEventListener("formstorage:load", (event) => restoredValues((event as CustomEvent).detail.names));
+
+      // URL values take precedence over stored values. Absent params leave the stored values alone.
+      localStorage.setItem(`form:${form.name}:query`, JSON.stringify("stored"));
+      localStorage.setItem(`form:${form.name}:exact`, JSON.stringify(true));
+      window.history.replaceState(null, "", "?query=url&sort=desc&colors=red&colors=blue&tags=a&tags=b&secret=1");
+      formStorageObserver.observe(form);
+
+      expect(screen.getByRole("textbox", { name: "Query" })).toHaveValue("url");
+      expect(screen.getByRole("radio", { name: "Descending" })).toBeChecked();
+      expect(screen.getByRole("checkbox", { name: "Exact" })).toBeChecked();
+      expect(screen.getByRole("listbox", { name: "Colors" })).toHaveValue(["red", "blue"]);
+      expect(screen.getByRole("checkbox", { name: "Tag A" })).toBeChecked();
+      expect(screen.getByRole("textbox", { name: "Tag B" })).toHaveValue("b");
+      expect(screen.getByLabelText("Secret")).not.toHaveValue();
+      expect(restoredValues).toHaveBeenLastCalledWith(["query", "sort", "colors", "tags"]);
+
+      // Navigation loads the URL's values (emptying the fields that are absent)
+      window.history.replaceState(null, "", "?sort=asc&exact=yes");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+
+      expect(screen.getByRole("textbox", { name: "Query" })).toHaveValue("");
+      expect(screen.getByRole("radio", { name: "Ascending" })).toBeChecked();
+      expect(screen.getByRole("checkbox", { name: "Exact" })).toBeChecked();
+      expect(screen.getByRole("listbox", { name: "Colors" })).toHaveValue([]);
+      expect(screen.getByRole("checkbox", { name: "Tag A" })).not.toBeChecked();
+      expect(screen.getByRole("textbox", { name: "Tag B" })).toHaveValue("");
+
+      // Unobserved forms are ignored
+      const otherForm = document.body.appendChild(document.createElement("form"));
+      formStorageObserver.observe(otherForm);
+      formStorageObserver.unobserve(form);
+      window.history.replaceState(null, "", "?query=ignored");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      expect(screen.getByRole("textbox", { name: "Query" })).toHaveValue("");
+    });
+  });
+
+  describe("Data Export and Import", () => {
+    beforeEach(() => localStorage.clear());
+
+    function renderExportForm() {
+      document.body.innerHTML = `
+        <form name="export-form" aria-label="Test Form">
+          <input name="title" type="text" aria-label="Title" value="Draft" />
+          <input name="urgent" type="checkbox" aria-label="Urgent" checked />
+          <input name="attachment" type="file" aria-label="Attachment" />
+        </form>
+      `;
+
+      return screen.getByRole<HTMLFormElement>("form");
+    }
+
+    it("Exports and imports a form's stored values with the static methods", () => {
+      const form = renderExportForm();
+      FormStorageObserver.save(form);
+
+      // Exporting
+      const data = FormStorageObserver.export(form);
+      expect(data).toStrictEqual({
+        fso: 1,
+        form: form.name,
+        version: undefined,
+        values: { title: "Draft", urgent: true },
+      });
+      expect(JSON.parse(JSON.stringify(data))).toStrictEqual({ fso: 1, form: form.name, values: data.values });
+
+      // Importing (Storage Only)
+      localStorage.clear();
+      form.reset();
+      screen.getByRole<HTMLInputElement>("textbox").value = "";
+
+      FormStorageObserver.import(form, { ...data, values: { ...data.values, unknown: 1, attachment: [] } });
+      expect(localStorage.getItem(`form:${form.name}:title`)).toBe(JSON.stringify("Draft"));
+      expect(localStorage.getItem(`form:${form.name}:urgent`)).toBe(JSON.stringify(true));
+      expect(localStorage).toHaveLength(2);
+      expect(screen.getByRole("textbox")).toHaveValue("");
+
+      // Importing (and Applying)
+      localStorage.clear();
+      FormStorageObserver.import(form, { ...data, values: { title: "Imported" } }, { apply: true });
+      expect(screen.getByRole("textbox")).toHaveValue("Imported");
+    });
+
+    it("Refuses to import the values of fields that wouldn't be saved", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither", exclude: "ex" });
+      document.body.innerHTML = `
+        <form name="sensitive-form" aria-label="Test Form">
+          <input name="cc" type="text" autocomplete="cc-number" aria-label="Card" />
+          <input name="pw" type="password" aria-label="Password" />
+          <input name="h" type="hidden" />
+          <input name="ig" type="text" aria-label="Ignored" data-fso-ignore />
+          <input name="ex" type="text" aria-label="Excluded" />
+          <input name="ok" type="text" aria-label="Allowed" />
+          <input name="color" type="radio" value="red" data-fso-ignore />
+          <input name="color" type="radio" value="blue" data-fso-ignore />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const values = { cc: "4242424242424242", pw: "secret", h: "token", ig: "1", ex: "2", ok: "3", color: "red" };
+      const data = { fso: 1, form: form.name, values };
+
+      FormStorageObserver.import(form, data);
+      expect(localStorage.getItem(`form:${form.name}:ex`)).toBe(JSON.stringify("2")); // Only excluded by the observer
+      expect(localStorage.getItem(`form:${form.name}:ok`)).toBe(JSON.stringify("3"));
+      expect(localStorage).toHaveLength(2);
+
+      localStorage.clear();
+      formStorageObserver.import(form, data);
+      expect(localStorage.getItem(`form:${form.name}:ok`)).toBe(JSON.stringify("3"));
+      expect(localStorage).toHaveLength(1);
+    });
+
+    it("Ignores imported names that only match a field's `id`", () => {
+      const form = renderExportForm();
+      const title = screen.getByRole<HTMLInputElement>("textbox");
+      title.id = "title-id";
+
+      const data = { fso: 1, form: form.name, values: { "title-id": "Imported", urgent: false } };
+      expect(() => FormStorageObserver.import(form, data)).not.toThrow();
+      expect(localStorage.getItem(`form:${form.name}:urgent`)).toBe(JSON.stringify(false));
+      expect(localStorage).toHaveLength(1);
+    });
+
+    it("Exports decrypted values and re-encrypts imported values", async () => {
+      const encryptionKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ]);
+
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither", encryptionKey });
+      const form = renderExportForm();
+      await formStorageObserver.save(form);
+
+      const data = await formStorageObserver.export(form);
+      expect(data.values).toStrictEqual({ title: "Draft", urgent: true });
+
+      // Importing
+      localStorage.clear();
+      const pendingImport = formStorageObserver.import(
+        form,
+        { ...data, values: { title: "Imported" } },
+        { apply: true },
+      );
+      expect(pendingImport).toEqual(expect.any(Promise));
+      await pendingImport;
+
+      expect(localStorage.getItem(`form:${form.name}:title`)).not.toContain("Imported");
+      expect(screen.getByRole("textbox")).toHaveValue("Imported");
+    });
+
+    it("Migrates imported values that belong to an older version of the form's data", () => {
+      const observerV1 = new FormStorageObserver(types[0], { automate: "neither", version: 1 });
+      const observerV2 = new FormStorageObserver(types[0], {
+        automate: "neither",
+        version: 2,
+        migrations: { 1: (value, name) => (name === "title" ? `${String(value)} (v2)` : value) },
+      });
+
+      const form = renderExportForm();
+      observerV1.save(form);
+      const data = observerV1.export(form) as FormStorageExport;
+      expect(data.version).toBe(1);
+
+      localStorage.clear();
+      observerV2.import(form, data);
+      observerV2.load(form);
+      expect(screen.getByRole("textbox")).toHaveValue("Draft (v2)");
+    });
+
+    it("Replaces pending writes and notifies other browsing contexts when values are imported", async () => {
+      vi.useFakeTimers();
+      const formStorageObserver = new FormStorageObserver(types[0], { debounce: 100, sync: true });
+      const form = renderExportForm();
+      const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+      formStorageObserver.observe(form);
+      screen.getByRole("textbox").dispatchEvent(new Event(types[0], { bubbles: true }));
+      formStorageObserver.import(form, { fso: 1, form: form.name, values: { title: "Imported" } });
+      vi.advanceTimersByTime(100);
+
+      expect(localStorage.getItem(`form:${form.name}:title`)).toBe(JSON.stringify("Imported"));
+      expect(postMessage).toHaveBeenCalledWith({ form: form.name, name: "title" });
+
+      formStorageObserver.disconnect();
+      postMessage.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it("Rejects data that wasn't exported from the provided form", () => {
+      const form = renderExportForm();
+      const formStorageObserver = new FormStorageObserver(types[0]);
+      const values = { title: "Draft" };
+
+      [null, [], "data", {}, { fso: 2, form: form.name, values }, { fso: 1, form: form.name, values: [] }].forEach(
+        (data) => {
+          expect(() => FormStorageObserver.import(form, data)).toThrow(
+            new TypeError("Expected data that was created by `FormStorageObserver.export()`."),
+          );
+        },
+      );
+
+      expect(() => formStorageObserver.import(form, { fso: 1, form: form.name, version: "1", values })).toThrow(
+        new TypeError('Expected the exported data\'s version to be a number, but received "1".'),
+      );
+
+      expect(() => formStorageObserver.import(form, { fso: 1, form: "other-form", values })).toThrow(
+        new Error('Expected data exported from a form named "export-form", but the data belongs to "other-form".'),
+      );
+
+      expect(localStorage).toHaveLength(0);
+    });
+  });
+
+  describe("Load Reports", () => {
+    beforeEach(() => localStorage.clear());
+
+    function renderReportForm() {
+      document.body.innerHTML = `
+        <form name="report-form" aria-label="Test Form">
+          <input name="title" type="text" aria-label="Title" />
+          <select name="size" aria-label="Size">
+            <option>small</option>
+            <option>large</option>
+          </select>
+          <select name="colors" aria-label="Colors" multiple>
+            <option>red</option>
+            <option>blue</option>
+          </select>
+          <input name="secret" type="password" aria-label="Secret" />
+          <input name="notes" type="text" aria-label="Notes" />
+          <input name="upload" type="file" aria-label="Upload" />
+        </form>
+      `;
+
+      return screen.getByRole<HTMLFormElement>("form");
+    }
+
+    it("Reports which stored values were restored, mismatched, skipped, or missing", () => {
+      const form = renderReportForm();
+      const store = (name: string, value: unknown) =>
+        localStorage.setItem(`form:${form.name}:${name}`, JSON.stringify(value));
+
+      store("title", "Draft");
+      store("size", "medium"); // No longer an option
+      store("colors", ["red", "green"]); // `green` was removed
+      store("secret", "password"); // Stored before the field became a password field
+      store("removed", "value"); // The field no longer exists
+      localStorage.setItem("form:other-form:title", JSON.stringify("Other"));
+
+      expect(FormStorageObserver.load(form)).toStrictEqual({
+        restored: ["title"],
+        mismatched: ["size", "colors"],
+        skipped: ["secret"],
+        missing: ["removed"],
+      });
+
+      expect(screen.getByRole("textbox", { name: "Title" })).toHaveValue("Draft");
+      expect(screen.getByRole("combobox", { name: "Size" })).not.toHaveValue();
+      expect(screen.getByRole("listbox", { name: "Colors" })).toHaveValue(["red"]);
+
+      // Single Fields
+      expect(FormStorageObserver.load(form, "size")).toStrictEqual({
+        restored: [],
+        mismatched: ["size"],
+        skipped: [],
+        missing: [],
+      });
+
+      expect(FormStorageObserver.load(form, "removed")).toStrictEqual({
+        restored: [],
+        mismatched: [],
+        skipped: [],
+        missing: ["removed"],
+      });
+
+      expect(FormStorageObserver.load(form, "notes")).toStrictEqual({
+        restored: [],
+        mismatched: [],
+        skipped: [],
+        missing: [],
+      });
+    });
+
+    it("Reports the outcome of loading the observer's own data", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        automate: "neither",
+        format: "record",
+        storage: createIndexedDBStorageAdapter(),
+        exclude: "notes",
+        restoreEvents: "custom",
+      });
+
+      document.body.innerHTML = `
+        <form name="record-report-form" aria-label="Test Form">
+          <input name="sort" type="radio" value="asc" aria-label="Ascending" />
+          <input name="sort" type="radio" value="desc" aria-label="Descending" />
+          <input name="agree" type="checkbox" aria-label="Agree" />
+          <input name="tags" type="text" aria-label="Tag 1" />
+          <input name="tags" type="text" aria-label="Tag 2" />
+          <input name="links" type="text" aria-label="Link 1" />
+          <input name="links" type="text" aria-label="Link 2" />
+          <input name="amounts" type="text" aria-label="Amount 1" />
+          <input name="amounts" type="number" aria-label="Amount 2" />
+          <input name="phones" type="text" aria-label="Phone 1" />
+          <input name="phones" type="password" aria-label="Phone 2" />
+          <input name="codes" type="text" aria-label="Code 1" />
+          <input name="codes" type="text" aria-label="Code 2" />
+          <input name="notes" type="text" aria-label="Notes" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const onLoad = vi.fn();
+      form.addEventListener("formstorage:load", (event) => onLoad((event as CustomEvent).detail.names));
+
+      const record = {
+        sort: "sideways", // Not one of the radio buttons
+        agree: "yes", // Checkboxes store booleans
+        tags: ["a", "b", "c"], // A field was removed from the group
+        links: "https://example.com", // Stored before the `name` was shared
+        amounts: [null, "ten"], // Rejected by the value sanitization algorithm
+        phones: [null, "555-0100"],
+        codes: { fso: 1, value: ["A", "B"], expires: Date.now() - 1 },
+        notes: "Excluded",
+        expired: { fso: 1, value: "Expired", expires: Date.now() - 1 },
+      };
+
+      await createIndexedDBStorageAdapter().set(`form-record:${form.name}`, JSON.stringify(record));
+      const pendingLoad = formStorageObserver.load(form);
+      expect(pendingLoad).toEqual(expect.any(Promise));
+
+      const report = await pendingLoad;
+      expect(report.restored).toStrictEqual([]);
+      expect(report.mismatched.sort()).toStrictEqual(["agree", "amounts", "links", "sort", "tags"]);
+      expect(report.skipped.sort()).toStrictEqual(["codes", "notes", "phones"]);
+      expect(report.missing).toStrictEqual(["expired"]);
+
+      // Restore events are still dispatched for the mismatched fields
+      expect(onLoad.mock.lastCall?.[0].sort()).toStrictEqual(report.mismatched);
+
+      // Snapshots
+      await formStorageObserver.saveSnapshot(form, "snapshot");
+      await expect(formStorageObserver.loadSnapshot(form, "snapshot")).resolves.toStrictEqual(
+        expect.objectContaining({ restored: expect.arrayContaining(["sort", "agree", "tags"]), missing: [] }),
+      );
+    });
+  });
+
+  describe("Page Lifecycle", () => {
+    beforeEach(() => {
+      localStorage.clear();
+      window.history.replaceState(null, "", "/");
+    });
+
+    /*
+     * Note: Every observer that is still observing a form reacts to `pageshow` events. A unique form name keeps the
+     * observers from other tests from touching the data used here.
+     */
+    function renderLifecycleForm() {
+      const { form, input } = renderSimpleForm();
+      form.name = "lifecycle-form";
+      return { form, input, key: `form:${form.name}:${input.name}` };
+    }
+
+    it("Reloads the data of automatically-restored forms when the page is restored from the back/forward cache", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { restoreEvents: "custom" });
+      const { form, input, key } = renderLifecycleForm();
+      const onLoad = vi.fn();
+      form.addEventListener("formstorage:load", onLoad);
+
+      formStorageObserver.observe(form);
+      localStorage.setItem(key, JSON.stringify("Changed by another page"));
+
+      // Regular page loads are ignored
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: false }));
+      expect(input).not.toHaveValue();
+
+      // Pages restored from the back/forward cache are reconciled with the storage backend
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      expect(input).toHaveValue("Changed by another page");
+      expect(onLoad).toHaveBeenCalledTimes(2);
+
+      // Unobserved forms are ignored
+      formStorageObserver.unobserve(form);
+      localStorage.setItem(key, JSON.stringify("Ignored"));
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      expect(input).toHaveValue("Changed by another page");
+    });
+
+    it("Only reconciles the forms whose data is loaded automatically", () => {
+      const manualObserver = new FormStorageObserver(types[0], { automate: "neither" });
+      const { form, input, key } = renderLifecycleForm();
+      const otherForm = document.body.appendChild(document.createElement("form"));
+
+      manualObserver.observe(form);
+      localStorage.setItem(key, JSON.stringify("value"));
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      expect(input).not.toHaveValue();
+      manualObserver.disconnect();
+
+      // Forms keep being reconciled until every automatically-restored form is unobserved
+      const formStorageObserver = new FormStorageObserver(types[0]);
+      formStorageObserver.observe(otherForm);
+      formStorageObserver.observe(form);
+      formStorageObserver.unobserve(otherForm);
+
+      form.reset();
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      expect(input).toHaveValue("value");
+      formStorageObserver.disconnect();
+    });
+
+    it("Lets the URL's values take precedence when reconciling forms that mirror their values into the URL", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { searchParams: "replace" });
+      const { form, input, key } = renderLifecycleForm();
+
+      formStorageObserver.observe(form);
+      localStorage.setItem(key, JSON.stringify("stored"));
+      window.history.replaceState(null, "", `?${input.name}=url`);
+
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      expect(input).toHaveValue("url");
+      formStorageObserver.disconnect();
+    });
+  });
+
+  describe("Incremental Loading", () => {
+    beforeEach(() => localStorage.clear());
+
+    /** Renders a form with the provided number of stored textboxes, and returns the `form` and its textboxes */
+    function renderLargeForm(count: number) {
+      document.body.innerHTML = `
+        <form name="large-form" aria-label="Test Form">
+          ${Array.from({ length: count }, (_, i) => `<input name="field-${i}" type="text" aria-label="Field ${i}" />`)}
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const fields = screen.getAllByRole<HTMLInputElement>("textbox");
+      fields.forEach((f) => localStorage.setItem(`form:${form.name}:${f.name}`, JSON.stringify(`${f.name} value`)));
+      return { form, fields };
+    }
+
+    it("Loads a form's fields in chunks when the `incremental` option is enabled", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        automate: "neither",
+        incremental: { chunkSize: 2 },
+        restoreEvents: "custom",
+      });
+
+      const { form, fields } = renderLargeForm(5);
+      const onLoad = vi.fn();
+      form.addEventListener("formstorage:load", (event) => onLoad((event as CustomEvent).detail.names));
+
+      // The first chunk is loaded immediately. The remaining chunks are loaded later.
+      const pendingLoad = formStorageObserver.load(form);
+      expect(pendingLoad).toEqual(expect.any(Promise));
+      expect(fields.map((f) => f.value)).toStrictEqual(["field-0 value", "field-1 value", "", "", ""]);
+      expect(onLoad).not.toHaveBeenCalled();
+
+      const report = await pendingLoad;
+      expect(fields.every((f) => f.value === `${f.name} value`)).toBe(true);
+      expect(report).toStrictEqual({ restored: fields.map((f) => f.name), mismatched: [], skipped: [], missing: [] });
+      expect(onLoad).toHaveBeenCalledTimes(1);
+
+      // Single fields are still loaded immediately
+      fields[4].value = "";
+      expect(formStorageObserver.load(form, fields[4].name)).toStrictEqual(
+        expect.objectContaining({ restored: [fields[4].name] }),
+      );
+      expect(fields[4]).toHaveValue("field-4 value");
+    });
+
+    it("Loads the `priority` fields first, followed by the fields that are visible in the viewport", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        automate: "neither",
+        incremental: { chunkSize: 1, priority: ["field-3", "missing"] },
+      });
+
+      const { form, fields } = renderLargeForm(4);
+      form.insertAdjacentHTML("beforeend", `<input name="choice" type="radio" /><input name="choice" type="radio" />`);
+      vi.spyOn(fields[2], "getBoundingClientRect").mockReturnValue(new DOMRect(0, 0, 100, 20));
+      vi.spyOn(fields[1], "getBoundingClientRect").mockReturnValue(new DOMRect(0, window.innerHeight, 100, 20));
+
+      /** @returns the names of the fields whose values have been loaded so far */
+      const getLoadedNames = () => fields.filter((f) => f.value).map((f) => f.name);
+      const loadedNames: string[][] = [];
+      const yields = vi.fn(() => {
+        loadedNames.push(getLoadedNames());
+        return Promise.resolve();
+      });
+
+      vi.stubGlobal("scheduler", { yield: yields });
+      await formStorageObserver.load(form);
+      vi.unstubAllGlobals();
+
+      expect(yields).toHaveBeenCalledTimes(4);
+      expect(loadedNames).toStrictEqual([
+        ["field-3"],
+        ["field-2", "field-3"],
+        ["field-0", "field-2", "field-3"],
+        ["field-0", "field-1", "field-2", "field-3"],
+      ]);
+    });
+
+    it("Yields to the main thread with `requestIdleCallback` when `scheduler.yield` is unavailable", async () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither", incremental: true });
+      const { form, fields } = renderLargeForm(21);
+      const requestIdleCallback = vi.fn((callback: IdleRequestCallback) => {
+        setTimeout(callback);
+        return 0;
+      });
+
+      vi.stubGlobal("requestIdleCallback", requestIdleCallback);
+      await formStorageObserver.load(form);
+      vi.unstubAllGlobals();
+
+      expect(requestIdleCallback).toHaveBeenCalledTimes(1);
+      expect(fields.at(-1)).toHaveValue("field-20 value");
+    });
+
+    it("Waits for each chunk to settle when the storage backend is asynchronous", async () => {
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        storage,
+        automate: "neither",
+        incremental: { chunkSize: 2 },
+      });
+
+      const { form, fields } = renderLargeForm(3);
+      await Promise.all(fields.map((f) => storage.set(`form:${form.name}:${f.name}`, JSON.stringify("async"))));
+
+      await formStorageObserver.load(form);
+      expect(fields.every((f) => f.value === "async")).toBe(true);
+    });
+  });
+
+  describe("Storage Failures", () => {
+    beforeEach(() => localStorage.clear());
+
+    /** Creates a synchronous storage backend that can only hold `capacity` characters (including its keys) */
+    function createLimitedStorageAdapter(capacity: number) {
+      const data = new Map<string, string>();
+      const measure = (excludedKey: string) => {
+        return Array.from(data).reduce((size, [k, v]) => (k === excludedKey ? size : size + k.length + v.length), 0);
+      };
+
+      return {
+        get: (key: string) => data.get(key) ?? null,
+        set(key: string, value: string) {
+          if (measure(key) + key.length + value.length > capacity) {
+            throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+          }
+
+          data.set(key, value);
+        },
+        remove(key: string) {
+          data.delete(key);
+        },
+        keys: () => Array.from(data.keys()),
+      } satisfies FormStorageAdapter;
+    }
+
+    function renderNamedForms(...names: string[]) {
+      document.body.innerHTML = names
+        .map((name) => `<form name="${name}"><input name="notes" type="text" aria-label="${name}" /></form>`)
+        .join("");
+
+      return names.map((name) => screen.getByRole<HTMLInputElement>("textbox", { name }));
+    }
+
+    it("Passes the errors that occur while saving values to the `onError` option", async () => {
+      const quotaError = new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      const storage = createMemoryStorageAdapter();
+      vi.spyOn(storage, "set").mockImplementation(() => {
+        throw quotaError;
+      });
+
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, onError });
+      const { form, input, key } = renderSimpleForm();
+      formStorageObserver.observe(form);
+
+      input.value = faker.lorem.words();
+      expect(() => input.dispatchEvent(new Event(types[0], { bubbles: true }))).not.toThrow();
+      expect(onError).toHaveBeenCalledExactlyOnceWith(quotaError, form, input.name);
+      expect(storage.get(key)).toBe(null);
+
+      // Asynchronous Errors
+      const asyncStorage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      vi.spyOn(asyncStorage, "set").mockRejectedValue(quotaError);
+
+      const asyncObserver = new FormStorageObserver(types[0], { storage: asyncStorage, onError, sync: true });
+      const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+      asyncObserver.observe(form);
+
+      input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(3)); // Both observers failed to save
+      expect(onError).toHaveBeenLastCalledWith(quotaError, form, input.name);
+      expect(postMessage).not.toHaveBeenCalled(); // Failed saves aren't broadcast
+
+      formStorageObserver.disconnect();
+      asyncObserver.disconnect();
+    });
+
+    it("Passes the errors that occur while saving files to the `onError` option", async () => {
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver("change", { files: true, onError });
+      document.body.innerHTML = `
+        <form aria-label="Test Form">
+          <input name="upload" type="file" aria-label="Upload" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const input = screen.getByLabelText<HTMLInputElement>("Upload");
+      const error = new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      vi.spyOn(IDBObjectStore.prototype, "put").mockImplementation(() => {
+        throw error;
+      });
+
+      formStorageObserver.observe(form);
+      await userEvent.upload(input, new File(["content"], "file.txt", { type: "text/plain" }));
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledExactlyOnceWith(error, form, input.name));
+      formStorageObserver.disconnect();
+    });
+
+    it("Passes the errors that occur while loading a form's data automatically to the `onError` option", async () => {
+      const error = new Error("The storage backend is unavailable.");
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      vi.spyOn(storage, "get").mockRejectedValue(error);
+
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, onError });
+      const { form, input, key } = renderSimpleForm();
+
+      // Observing
+      formStorageObserver.observe(form);
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledExactlyOnceWith(error, form, ""));
+
+      // Reconciling
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+      expect(onError).toHaveBeenLastCalledWith(error, form, "");
+      formStorageObserver.disconnect();
+
+      // Restoration Approvals
+      localStorage.setItem(key, JSON.stringify(faker.lorem.words()));
+      const shouldRestore = () => {
+        throw error;
+      };
+
+      const approvingObserver = new FormStorageObserver(types[0], { shouldRestore, onError });
+      expect(() => approvingObserver.observe(form)).not.toThrow();
+      expect(onError).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenLastCalledWith(error, form, "");
+      expect(input).not.toHaveValue();
+      approvingObserver.disconnect();
+    });
+
+    it("Skips (and reports) stored entries that can't be parsed instead of throwing", () => {
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { automate: "neither", onError });
+      document.body.innerHTML = `
+        <form name="corrupt-form" aria-label="Test Form">
+          <input name="title" type="text" aria-label="Title" />
+          <input name="notes" type="text" aria-label="Notes" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      localStorage.setItem(`form:${form.name}:title`, JSON.stringify("Draft"));
+      localStorage.setItem(`form:${form.name}:notes`, "{not json");
+
+      const report = { restored: ["title"], mismatched: [], skipped: ["notes"], missing: [] };
+      expect(FormStorageObserver.load(form)).toStrictEqual(report);
+      expect(onError).not.toHaveBeenCalled();
+
+      expect(formStorageObserver.load(form)).toStrictEqual(report);
+      expect(screen.getByRole("textbox", { name: "Title" })).toHaveValue("Draft");
+      expect(onError).toHaveBeenCalledExactlyOnceWith(expect.any(SyntaxError), form, "notes");
+      expect(localStorage.getItem(`form:${form.name}:notes`)).toBe("{not json"); // Corrupt entries are left alone
+    });
+
+    it("Skips corrupt records when loading, and overwrites them when saving", async () => {
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", onError });
+      const { form, input } = renderSimpleForm();
+      const recordKey = `form-record:${form.name}`;
+      const report = { restored: [], mismatched: [], skipped: [input.name], missing: [] };
+
+      localStorage.setItem(recordKey, "[]"); // Valid JSON, but not a record
+      expect(formStorageObserver.load(form)).toStrictEqual(report);
+      expect(onError).not.toHaveBeenCalled();
+
+      localStorage.setItem(recordKey, "{not json");
+      formStorageObserver.observe(form);
+      expect(onError).toHaveBeenCalledExactlyOnceWith(expect.any(SyntaxError), form, input.name);
+      expect(formStorageObserver.load(form, input.name)).toStrictEqual(report);
+      expect(FormStorageObserver.prune()).toBeUndefined();
+
+      await userEvent.type(input, "Draft{Tab}");
+      expect(localStorage.getItem(recordKey)).toBe(JSON.stringify({ [input.name]: "Draft" }));
+
+      // Corrupt Snapshot Indexes
+      localStorage.setItem(`form-snapshots:${form.name}`, "{not json");
+      expect(formStorageObserver.listSnapshots(form)).toStrictEqual([]);
+      formStorageObserver.disconnect();
+    });
+
+    it("Evicts the data of the least recently saved forms when the quota is exceeded (`oldest-forms`)", () => {
+      const onError = vi.fn();
+      const storage = createLimitedStorageAdapter(250);
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, eviction: "oldest-forms", onError });
+      const [inputA, inputB, inputC] = renderNamedForms("form-a", "form-b", "form-c");
+      const forms = [inputA, inputB, inputC].map((input) => input.form as HTMLFormElement);
+      forms.forEach((form) => formStorageObserver.observe(form));
+
+      const value = "x".repeat(50);
+      [inputA, inputB, inputC].forEach((input) => {
+        input.value = value; // eslint-disable-line no-param-reassign
+        input.dispatchEvent(new Event(types[0], { bubbles: true }));
+      });
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(storage.get("form:form-a:notes")).toBe(null);
+      expect(storage.get("form:form-b:notes")).toBe(JSON.stringify(value));
+      expect(storage.get("form:form-c:notes")).toBe(JSON.stringify(value));
+      expect(Object.keys(JSON.parse(storage.get("form-saves") as string) as object)).toStrictEqual([
+        "form-b",
+        "form-c",
+      ]);
+
+      // Values that don't fit (even after every other form is evicted) are passed to `onError`
+      inputA.value = "x".repeat(250);
+      inputA.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({ name: "QuotaExceededError" }),
+        forms[0],
+        "notes",
+      );
+      expect(storage.keys()).toStrictEqual([]);
+
+      // Errors unrelated to the quota don't evict anything
+      const error = new TypeError("Unexpected");
+      inputB.value = value;
+      inputB.dispatchEvent(new Event(types[0], { bubbles: true }));
+      vi.spyOn(storage, "set").mockImplementation(() => {
+        throw error;
+      });
+
+      inputC.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(onError).toHaveBeenLastCalledWith(error, forms[2], "notes");
+      expect(storage.get("form:form-b:notes")).toBe(JSON.stringify(value));
+      formStorageObserver.disconnect();
+    });
+
+    it("Never evicts the data of other forms whose names start with the evicted form's name", () => {
+      const storage = createLimitedStorageAdapter(220);
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        storage,
+        eviction: "oldest-forms",
+        automate: "neither",
+      });
+
+      const inputs = renderNamedForms("a", "a:b", "c");
+      inputs.forEach((input) => {
+        input.value = "x".repeat(50); // eslint-disable-line no-param-reassign
+        formStorageObserver.save(input.form as HTMLFormElement);
+      });
+
+      // Form `a` was evicted to make room for form `c`
+      expect(storage.keys().sort()).toStrictEqual(["form-saves", "form:a:b:notes", "form:c:notes"]);
+    });
+
+    it("Only evicts forms whose storage keys can be identified", () => {
+      const storage = createLimitedStorageAdapter(100);
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        storage,
+        eviction: "oldest-forms",
+        automate: "neither",
+        key: (form, fieldName) => `${form.name}/${fieldName}`,
+      });
+
+      const [inputA, inputB] = renderNamedForms("form-a", "form-b");
+      inputA.value = "x".repeat(40);
+      formStorageObserver.save(inputA.form as HTMLFormElement);
+
+      inputB.value = "x".repeat(40);
+      expect(() => formStorageObserver.save(inputB.form as HTMLFormElement)).toThrow(DOMException);
+      expect(storage.keys()).toStrictEqual(["form-a/notes"]);
+
+      // Unnamed forms are tracked under the global scope (just like their keys)
+      const memoryStorage = createMemoryStorageAdapter();
+      const defaultKeyObserver = new FormStorageObserver(types[0], {
+        storage: memoryStorage,
+        eviction: "oldest-forms",
+      });
+      inputB.form?.removeAttribute("name");
+      defaultKeyObserver.save(inputB.form as HTMLFormElement);
+      expect(memoryStorage.keys()).toStrictEqual(["form:global-scope:notes", "form-saves"]);
+      expect(memoryStorage.get("form-saves")).toMatch(/^{"global-scope":\d+}$/);
+    });
+
+    it("Rejects values that would exceed a form's byte budget (`maxBytesPerForm`)", async () => {
+      const onError = vi.fn();
+      const formStorageObserver = new FormStorageObserver(types[0], { eviction: { maxBytesPerForm: 200 }, onError });
+      document.body.innerHTML = `
+        <form name="budget-form" aria-label="Test Form">
+          <input name="title" type="text" aria-label="Title" />
+          <input name="notes" type="text" aria-label="Notes" />
+        </form>
+      `;
+
+      const form = screen.getByRole<HTMLFormElement>("form");
+      const title = screen.getByRole<HTMLInputElement>("textbox", { name: "Title" });
+      const notes = screen.getByRole<HTMLInputElement>("textbox", { name: "Notes" });
+      formStorageObserver.observe(form);
+
+      // `form:budget-form:title` + `"Draft"` = (22 + 7) * 2 bytes
+      await userEvent.type(title, "Draft{Tab}");
+      expect(localStorage.getItem("form:budget-form:title")).toBe(JSON.stringify("Draft"));
+
+      // `form:budget-form:notes` + `"x...x"` = (22 + 52) * 2 bytes. (The form's total would be 206 bytes.)
+      notes.value = "x".repeat(50);
+      notes.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(localStorage.getItem("form:budget-form:notes")).toBe(null);
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({ name: "QuotaExceededError" }),
+        form,
+        "notes",
+      );
+
+      // Replacing a field's value only counts the new value
+      title.value = "";
+      title.dispatchEvent(new Event(types[0], { bubbles: true }));
+      notes.dispatchEvent(new Event(types[0], { bubbles: true }));
+      expect(localStorage.getItem("form:budget-form:notes")).toBe(JSON.stringify("x".repeat(50)));
+      expect(onError).toHaveBeenCalledTimes(1);
+      formStorageObserver.disconnect();
+    });
+
+    it("Applies byte budgets to the entire record in the `record` format", async () => {
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      const formStorageObserver = new FormStorageObserver(types[0], {
+        storage,
+        format: "record",
+        automate: "neither",
+        eviction: { maxBytesPerForm: 100 },
+      });
+
+      const { form, input } = renderSimpleForm();
+      const recordKey = `form-record:${form.name}`;
+
+      // `form-record:simple-form` + `{"textbox":"Draft"}` = (23 + 19) * 2 bytes
+      input.value = "Draft";
+      await formStorageObserver.save(form);
+      expect(await storage.get(recordKey)).toBe(JSON.stringify({ textbox: "Draft" }));
+
+      input.value = "A longer draft";
+      await expect(formStorageObserver.save(form)).rejects.toThrow(/storage budget of 100 bytes/);
+      expect(await storage.get(recordKey)).toBe(JSON.stringify({ textbox: "Draft" }));
+    });
+  });
+
+  describe("Orphaned Data", () => {
+    beforeEach(() => localStorage.clear());
+
+    function renderOrphanForm() {
+      document.body.innerHTML = `
+        <form name="orphan-form" aria-label="Test Form">
+          <input name="title" type="text" aria-label="Title" />
+          <input name="secret" type="password" aria-label="Secret" />
+        </form>
+      `;
+
+      return screen.getByRole<HTMLFormElement>("form");
+    }
+
+    it("Removes the stored entries that don't belong to any of the form's fields when `prune` receives a form", async () => {
+      const form = renderOrphanForm();
+      const entries = {
+        "form:orphan-form:title": JSON.stringify("Draft"),
+        "form:orphan-form:secret": JSON.stringify("Stored before the field became a password field"),
+        "form:orphan-form:removed": JSON.stringify("Orphaned"),
+        "form:orphan-form:also-removed": JSON.stringify(["Orphaned"]),
+        "form:other-form:removed": JSON.stringify("Belongs to another form"),
+      };
+      const orphanedKeys = ["form:orphan-form:removed", "form:orphan-form:also-removed"];
+
+      // Static Method (`localStorage`)
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+      expect(FormStorageObserver.prune(form)).toBeUndefined();
+      Object.keys(entries).forEach((key) => {
+        expect(localStorage.getItem(key)).toBe(
+          orphanedKeys.includes(key) ? null : entries[key as keyof typeof entries],
+        );
+      });
+
+      // Instance Method (Asynchronous Storage)
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      await Promise.all(Object.entries(entries).map(([key, value]) => storage.set(key, value)));
+
+      const formStorageObserver = new FormStorageObserver(types[0], { storage, automate: "neither" });
+      const pendingPrune = formStorageObserver.prune(form);
+      expect(pendingPrune).toEqual(expect.any(Promise));
+
+      await pendingPrune;
+      expect((await storage.keys()).sort()).toStrictEqual(
+        Object.keys(entries)
+          .filter((key) => !orphanedKeys.includes(key))
+          .sort(),
+      );
+
+      // Non-form elements are rejected
+      expect(() => FormStorageObserver.prune(document.body as HTMLFormElement)).toThrow(TypeError);
+    });
+
+    it("Never prunes (or reports) entries that might belong to a different form", () => {
+      document.body.innerHTML = `
+        <form name="a" aria-label="Form A"><input name="x" type="text" /></form>
+        <form name="a:b" aria-label="Form AB"><input name="y" type="text" /></form>
+      `;
+
+      const [formA, formAB] = screen.getAllByRole<HTMLFormElement>("form");
+      FormStorageObserver.save(formAB);
+      localStorage.setItem("form:a:removed", JSON.stringify("Orphaned"));
+      expect(localStorage.getItem("form:a:b:y")).toBe(JSON.stringify(""));
+
+      // `form:a:b:y` belongs to either the field `b:y` of form `a` or the field `y` of form `a:b`
+      expect(FormStorageObserver.load(formA)).toStrictEqual({
+        restored: [],
+        mismatched: [],
+        skipped: [],
+        missing: ["removed"],
+      });
+
+      FormStorageObserver.prune(formA);
+      expect(localStorage.getItem("form:a:removed")).toBe(null);
+      expect(localStorage.getItem("form:a:b:y")).toBe(JSON.stringify(""));
+
+      // The `keep` option keeps the keys that belong to _any_ of the kept forms
+      FormStorageObserver.prune({ keep: ["a"] });
+      expect(localStorage.getItem("form:a:b:y")).toBe(JSON.stringify(""));
+
+      FormStorageObserver.prune({ keep: ["a:b"] });
+      expect(localStorage.getItem("form:a:b:y")).toBe(JSON.stringify(""));
+
+      FormStorageObserver.prune({ keep: [] });
+      expect(localStorage).toHaveLength(0);
+    });
+
+    it("Removes the orphaned entries of a form's record (`record` format)", () => {
+      const formStorageObserver = new FormStorageObserver(types[0], { format: "record", automate: "neither" });
+      const form = renderOrphanForm();
+      const recordKey = `form-record:${form.name}`;
+
+      localStorage.setItem(recordKey, JSON.stringify({ title: "Draft", removed: "Orphaned" }));
+      expect(formStorageObserver.prune(form)).toBeUndefined();
+      expect(localStorage.getItem(recordKey)).toBe(JSON.stringify({ title: "Draft" }));
+
+      localStorage.setItem(recordKey, JSON.stringify({ removed: "Orphaned" }));
+      formStorageObserver.prune(form);
+      expect(localStorage.getItem(recordKey)).toBe(null); // Empty records are removed
+    });
+
+    it("Removes the data of every form that isn't listed in the `keep` option", async () => {
+      const now = Date.now();
+      const entries = {
+        "form:kept-form:title": JSON.stringify("Kept"),
+        "form:kept-form:expired": JSON.stringify({ fso: 1, value: "Expired", expires: now - 1 }),
+        "form-record:kept-form": JSON.stringify({ title: "Kept" }),
+        "form-snapshot:kept-form:v1:title": JSON.stringify("Kept"),
+        "form-snapshots:kept-form": JSON.stringify({ v1: now }),
+        "form:global-scope:title": JSON.stringify("Kept"),
+        "form:old-form:title": JSON.stringify("Removed"),
+        "form-record:old-form": JSON.stringify({ title: "Removed" }),
+        "form-snapshot:old-form:v1:title": JSON.stringify("Removed"),
+        "form-snapshots:old-form": JSON.stringify({ v1: now }),
+        "form-saves": JSON.stringify({ "kept-form": now, "old-form": now }),
+        "user-1:form:old-form:title": JSON.stringify("Another namespace"),
+        "form:malformed": JSON.stringify("Not a field key"),
+        "unrelated-key": JSON.stringify("Unrelated"),
+      };
+      const removedKeys = [
+        "form:kept-form:expired",
+        "form:old-form:title",
+        "form-record:old-form",
+        "form-snapshot:old-form:v1:title",
+        "form-snapshots:old-form",
+      ];
+
+      const keep = ["kept-form", "global-scope"];
+      const expected = { ...entries, "form-saves": JSON.stringify({ "kept-form": now }) };
+
+      // Static Method (`localStorage`)
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+      expect(FormStorageObserver.prune({ keep })).toBeUndefined();
+      Object.keys(entries).forEach((key) => {
+        expect(localStorage.getItem(key)).toBe(
+          removedKeys.includes(key) ? null : expected[key as keyof typeof entries],
+        );
+      });
+
+      // Indexes that only list kept forms are left alone
+      const formSaves = localStorage.getItem("form-saves");
+      FormStorageObserver.prune({ keep });
+      expect(localStorage.getItem("form-saves")).toBe(formSaves);
+
+      // Instance Method (Asynchronous Storage)
+      const storage = createIndexedDBStorageAdapter({ database: faker.string.uuid() });
+      await Promise.all(Object.entries(entries).map(([key, value]) => storage.set(key, value)));
+
+      const pendingPrune = new FormStorageObserver(types[0], { storage }).prune({ keep });
+      expect(pendingPrune).toEqual(expect.any(Promise));
+
+      await pendingPrune;
+      expect((await storage.keys()).sort()).toStrictEqual(
+        Object.keys(entries)
+          .filter((key) => !removedKeys.includes(key))
+          .sort(),
+      );
+      expect(await storage.get("form-saves")).toBe(expected["form-saves"]);
+    });
+
+    it("Only removes the unlisted forms in its own namespace", () => {
+      const entries = {
+        "form:old-form:title": JSON.stringify("Default namespace"),
+        "user-1:form:old-form:title": JSON.stringify("Removed"),
+        "user-1:form:kept-form:title": JSON.stringify("Kept"),
+      };
+
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+      new FormStorageObserver(types[0], { key: "user-1" }).prune({ keep: ["kept-form"] });
+      expect(localStorage.getItem("form:old-form:title")).toBe(entries["form:old-form:title"]);
+      expect(localStorage.getItem("user-1:form:old-form:title")).toBe(null);
+      expect(localStorage.getItem("user-1:form:kept-form:title")).toBe(entries["user-1:form:kept-form:title"]);
+
+      // Keys generated by custom functions can't be identified
+      new FormStorageObserver(types[0], { key: (form, fieldName) => `${form.name}/${fieldName}` }).prune({ keep: [] });
+      expect(localStorage).toHaveLength(2);
+    });
+  });
+});
+
+/* eslint-disable no-new */
+/* eslint-disable no-unreachable */
+(function runTypeOnlyTests() {
+  /*
+   * This early return statement allows our type-only tests to be validated by `ts-jest` WITHOUT us getting
+   * false positives for code coverage.
+   */
+  return;
+  const event1 = "beforeinput" satisfies keyof DocumentEventMap; // Correlates to `InputEvent`
+  const event2 = "click" satisfies keyof DocumentEventMap; // Correlates to `MouseEvent`
+
+  // Single Type
+  new FormStorageObserver(event1);
+  new FormStorageObserver(event1, {});
+  new FormStorageObserver(event1, { automate: "loading" });
+  new FormStorageObserver(event1, { useEventCapturing: true });
+
+  // Multiple Types
+  new FormStorageObserver([event1, event2]);
+  new FormStorageObserver([event1, event2], {});
+  new FormStorageObserver([event1, event2], { automate: undefined });
+  new FormStorageObserver([event1, event2], { useEventCapturing: undefined });
+
+  new FormStorageObserver([event1, event2] as const);
+  new FormStorageObserver([event1, event2] as const, {});
+  new FormStorageObserver([event1, event2] as const, { automate: "deletion" });
+  new FormStorageObserver([event1, event2] as const, { useEventCapturing: false });
+  new FormStorageObserver([event1, event2] as const, { storage: createMemoryStorageAdapter() });
+  new FormStorageObserver([event1, event2] as const, { expiresIn: 1000 });
+  new FormStorageObserver([event1, event2] as const, { version: 1, migrations: { 0: (value) => value } });
+  new FormStorageObserver([event1, event2] as const, { sync: true, syncConflicts: "overwrite" });
+  new FormStorageObserver([event1, event2] as const, { restoreEvents: "native" });
+  new FormStorageObserver([event1, event2] as const, { key: "user-42" });
+  new FormStorageObserver([event1, event2] as const, { searchParams: "push" });
+  new FormStorageObserver([event1, event2] as const, { incremental: true });
+  new FormStorageObserver([event1, event2] as const, { incremental: { chunkSize: 50, priority: ["email"] } });
+  new FormStorageObserver([event1, event2] as const, { eviction: "oldest-forms", onError: (error) => error });
+
+  FormStorageObserver.prune();
+  FormStorageObserver.prune(document.createElement("form"));
+  FormStorageObserver.prune({ keep: ["signup", "global-scope"] });
+  new FormStorageObserver(event1).prune({}) satisfies void | Promise<void>;
+  new FormStorageObserver([event1, event2] as const, {
+    eviction: { maxBytesPerForm: 1024 * 1024 },
+    onError: (error, form, name) => ({ error, form, name }),
+  });
+  new FormStorageObserver([event1, event2] as const, {
+    serialize: (field) => (field instanceof HTMLInputElement ? field.value.trim() : field.value),
+    deserialize: (stored, field) => (field instanceof RadioNodeList && stored === "grey" ? "gray" : stored),
+  });
+  new FormStorageObserver([event1, event2] as const, { clearOn: "submit", shouldRestore: () => true });
+  new FormStorageObserver([event1, event2] as const, {
+    clearOn: ["submit", "reset"],
+    shouldRestore: (_, snapshot) => Promise.resolve(Object.keys(snapshot).length > 1),
+  });
+  new FormStorageObserver([event1, event2] as const, { key: (form, fieldName) => `${form.id}:${fieldName}` });
+  new FormStorageObserver([event1, event2] as const, { debounce: 300 });
+  new FormStorageObserver([event1, event2] as const, { throttle: 300 });
+  new FormStorageObserver([event1, event2] as const, { format: "record" });
+  new FormStorageObserver([event1, event2] as const, { files: true });
+  new FormStorageObserver([event1, event2] as const, { files: { maxFileSize: 1024, maxTotalSize: 4096 } });
+  new FormStorageObserver([event1, event2] as const, { include: "name", exclude: { selector: "[data-private]" } });
+  new FormStorageObserver([event1, event2] as const, {
+    exclude: ["name", (field) => field.name.startsWith("secret-")],
+  });
 })();
 /* eslint-enable no-unreachable */
 /* eslint-enable no-new */
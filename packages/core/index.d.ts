@@ -1,5 +1,6 @@
 export { default as FormObserver } from "./FormObserver.js";
 export { default as FormStorageObserver } from "./FormStorageObserver.js";
 export { default as FormValidityObserver } from "./FormValidityObserver.js";
+export * from "./FormStorageObserver.js";
 export * from "./FormValidityObserver.js";
 export type * from "./types.d.ts";
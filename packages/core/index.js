@@ -1,4 +1,5 @@
 export { default as FormObserver } from "./FormObserver.js";
 export { default as FormStorageObserver } from "./FormStorageObserver.js";
 export { default as FormValidityObserver } from "./FormValidityObserver.js";
+export * from "./FormStorageObserver.js";
 export * from "./FormValidityObserver.js";